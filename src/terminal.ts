@@ -1,3 +1,5 @@
+/// <reference lib="es2017.sharedmemory" />
+
 module Terminal {
   function unexpected(message: string) {
     console.error(message);
@@ -7,6 +9,173 @@ module Terminal {
     return Math.max(min, Math.min(max, value));
   }
 
+  /**
+   * Packs 8 bit RGB components into a 16 bit RGB565 color.
+   */
+  function packColor(r: number, g: number, b: number): number {
+    r = clamp(r, 0, 255);
+    g = clamp(g, 0, 255);
+    b = clamp(b, 0, 255);
+    return ((r / 256 * 32) & 0x1F) << 11 |
+           ((g / 256 * 64) & 0x3F) <<  5 |
+           ((b / 256 * 32) & 0x1F) <<  0;
+  }
+
+  /**
+   * CSS color string for a 16 bit RGB565 color.
+   */
+  function colorToCSS(color: number): string {
+    var r = (((color >> 11) & 0x1F) / 32) * 256;
+    var g = (((color >>  5) & 0x3F) / 64) * 256;
+    var b = (((color >>  0) & 0x1F) / 32) * 256;
+    return "rgb(" + r + "," + g + "," + b + ")";
+  }
+
+  /**
+   * CSS color string for a 24 bit RGB color.
+   */
+  function rgbToCSS(rgb: number): string {
+    return "#" + (0x1000000 + rgb).toString(16).slice(1);
+  }
+
+  /**
+   * Attribute bits of a cell style. A style packs the attributes above a 16 bit background color,
+   * the background color only applies if |Background| is set.
+   */
+  export enum Attribute {
+    Bold = 1,
+    Dim = 2,
+    Underline = 4,
+    Inverse = 8,
+    Background = 16,
+
+    /**
+     * The foreground or background color is an index into the theme's palette, see
+     * |PaletteIndex|, instead of an RGB565 color.
+     */
+    IndexedForeground = 32,
+    IndexedBackground = 64
+  }
+
+  function packStyle(background: number, attributes: number): number {
+    return (attributes << 16 | background) >>> 0;
+  }
+
+  function styleBackground(style: number): number {
+    return style & 0xFFFF;
+  }
+
+  function styleAttributes(style: number): number {
+    return style >>> 16;
+  }
+
+  /**
+   * Inline CSS for a cell with |color| and |style|, indexed colors are looked up in |theme|.
+   */
+  function styleToCSS(color: number, style: number, theme: Theme): string {
+    var attributes = styleAttributes(style);
+    var foreground = attributes & Attribute.IndexedForeground ? rgbToCSS(theme.colors[color]) : colorToCSS(color);
+    var background = "";
+    if (attributes & Attribute.Background) {
+      var backgroundColor = styleBackground(style);
+      background = attributes & Attribute.IndexedBackground ?
+        rgbToCSS(theme.colors[backgroundColor]) : colorToCSS(backgroundColor);
+    }
+    if (attributes & Attribute.Inverse) {
+      var t = foreground;
+      foreground = background || rgbToCSS(theme.background);
+      background = t;
+    }
+    var css = "color: " + foreground + ";";
+    if (background) {
+      css += " background-color: " + background + ";";
+    }
+    if (attributes & Attribute.Bold) {
+      css += " font-weight: bold;";
+    }
+    if (attributes & Attribute.Dim) {
+      css += " opacity: 0.5;";
+    }
+    if (attributes & Attribute.Underline) {
+      css += " text-decoration: underline;";
+    }
+    return css;
+  }
+
+  function escapeHTML(s: string): string {
+    return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+  }
+
+  /**
+   * Entries of a theme's palette: the xterm 256 colors followed by the default foreground and
+   * background colors.
+   */
+  export enum PaletteIndex {
+    DefaultForeground = 256,
+    DefaultBackground = 257,
+    Length = 258
+  }
+
+  /**
+   * A palette of 24 bit RGB colors. Cells with indexed colors are drawn with the palette of the
+   * screen's theme, so switching themes recolors them without touching buffer contents.
+   */
+  export class Theme {
+    static xtermANSIColors = [
+      0x000000, 0xCD0000, 0x00CD00, 0xCDCD00, 0x0000EE, 0xCD00CD, 0x00CDCD, 0xE5E5E5,
+      0x7F7F7F, 0xFF0000, 0x00FF00, 0xFFFF00, 0x5C5CFF, 0xFF00FF, 0x00FFFF, 0xFFFFFF
+    ];
+
+    static tangoANSIColors = [
+      0x2E3436, 0xCC0000, 0x4E9A06, 0xC4A000, 0x3465A4, 0x75507B, 0x06989A, 0xD3D7CF,
+      0x555753, 0xEF2929, 0x8AE234, 0xFCE94F, 0x729FCF, 0xAD7FA8, 0x34E2E2, 0xEEEEEC
+    ];
+
+    static solarizedANSIColors = [
+      0x073642, 0xDC322F, 0x859900, 0xB58900, 0x268BD2, 0xD33682, 0x2AA198, 0xEEE8D5,
+      0x002B36, 0xCB4B16, 0x586E75, 0x657B83, 0x839496, 0x6C71C4, 0x93A1A1, 0xFDF6E3
+    ];
+
+    static dark = new Theme("dark", 0x333333, 0xFFFFFF, Theme.xtermANSIColors);
+    static light = new Theme("light", 0xFAFAFA, 0x383A42, Theme.tangoANSIColors);
+    static solarizedDark = new Theme("solarized-dark", 0x002B36, 0x839496, Theme.solarizedANSIColors);
+    static solarizedLight = new Theme("solarized-light", 0xFDF6E3, 0x657B83, Theme.solarizedANSIColors);
+
+    /**
+     * Colors indexed by |PaletteIndex|.
+     */
+    colors: Uint32Array;
+
+    /**
+     * Builds the xterm 256 color palette from 16 |ansi| colors, a 6x6x6 color cube and a 24 step
+     * gray ramp.
+     */
+    constructor(public name: string, background: number, foreground: number, ansi: number[]) {
+      var colors = this.colors = new Uint32Array(PaletteIndex.Length);
+      var levels = [0, 95, 135, 175, 215, 255];
+      for (var i = 0; i < 16; i++) {
+        colors[i] = ansi[i];
+      }
+      for (var i = 0; i < 216; i++) {
+        colors[16 + i] = levels[(i / 36) | 0] << 16 | levels[((i / 6) | 0) % 6] << 8 | levels[i % 6];
+      }
+      for (var i = 0; i < 24; i++) {
+        var v = 8 + i * 10;
+        colors[232 + i] = v << 16 | v << 8 | v;
+      }
+      colors[PaletteIndex.DefaultForeground] = foreground;
+      colors[PaletteIndex.DefaultBackground] = background;
+    }
+
+    get foreground(): number {
+      return this.colors[PaletteIndex.DefaultForeground];
+    }
+
+    get background(): number {
+      return this.colors[PaletteIndex.DefaultBackground];
+    }
+  }
+
   function createProgramFromSource(gl, vertex, fragment) {
     var key = vertex + "-" + fragment;
     var program = createProgram(gl, [
@@ -71,7 +240,75 @@ module Terminal {
   }
 
   export enum CharacterCode {
-    NewLine = 10
+    NewLine = 10,
+    Escape = 27,
+    Space = 32,
+    Percent = 37,
+    Plus = 43,
+    Minus = 45,
+    Period = 46,
+    Zero = 48,
+    Nine = 57,
+    Semicolon = 59,
+    UppercaseX = 88,
+    LeftBracket = 91,
+    LowercaseF = 102,
+    LowercaseM = 109,
+    LowercaseU = 117,
+    LowercaseX = 120,
+    ReplacementCharacter = 0xFFFD,
+
+    /**
+     * Fills the cell after a wide character, it's outside the Unicode range so it can't collide
+     * with a real code point.
+     */
+    WideCharacterPadding = 0x110000
+  }
+
+  function isHighSurrogate(c: number): boolean {
+    return c >= 0xD800 && c <= 0xDBFF;
+  }
+
+  function isLowSurrogate(c: number): boolean {
+    return c >= 0xDC00 && c <= 0xDFFF;
+  }
+
+  function decodeSurrogatePair(high: number, low: number): number {
+    return ((high - 0xD800) << 10) + (low - 0xDC00) + 0x10000;
+  }
+
+  function codePointToString(c: number): string {
+    if (c > 0xFFFF) {
+      c -= 0x10000;
+      return String.fromCharCode(0xD800 + (c >> 10), 0xDC00 + (c & 0x3FF));
+    }
+    return String.fromCharCode(c);
+  }
+
+  /**
+   * Whether code point |c| takes up two cells. This covers the common East Asian wide and full
+   * width ranges and emoji, not the full Unicode East Asian Width property.
+   */
+  function isWideCodePoint(c: number): boolean {
+    if (c < 0x1100) {
+      return false;
+    }
+    return (c <= 0x115F) ||
+           (c >= 0x2E80 && c <= 0xA4CF && c !== 0x303F) ||
+           (c >= 0xAC00 && c <= 0xD7A3) ||
+           (c >= 0xF900 && c <= 0xFAFF) ||
+           (c >= 0xFE30 && c <= 0xFE4F) ||
+           (c >= 0xFF00 && c <= 0xFF60) ||
+           (c >= 0xFFE0 && c <= 0xFFE6) ||
+           (c >= 0x1F300 && c <= 0x1F64F) ||
+           (c >= 0x1F900 && c <= 0x1F9FF) ||
+           (c >= 0x20000 && c <= 0x3FFFD);
+  }
+
+  enum EscapeState {
+    None,
+    Escape,
+    ControlSequence
   }
 
   export class Cursor {
@@ -80,624 +317,6181 @@ module Terminal {
     }
   }
 
-  export class Buffer {
-    starts: Uint32Array;
-    buffer: Uint8Array;
-    colors: Uint16Array;
+  /**
+   * Order of the tasks within a frame: buffers take in new lines, views render them into screens
+   * and screens draw.
+   */
+  export enum FramePhase {
+    Input,
+    Update,
+    Paint
+  }
 
-    /**
-     * Number of rows.
-     */
-    h: number;
+  /**
+   * Runs tasks once per animation frame from a single requestAnimationFrame loop, which only runs
+   * while there are tasks. Buffers, views and screens all add their tasks to |Scheduler.shared|.
+   */
+  export class Scheduler {
+    static shared: Scheduler = new Scheduler();
+
+    private phases: Array<Array<() => void>>;
+    private frame: number;
+    private boundTick: () => void;
+
+    constructor() {
+      this.phases = [[], [], []];
+      this.frame = 0;
+      this.boundTick = this.tick.bind(this);
+    }
+
+    public add(task: () => void, phase: FramePhase = FramePhase.Update) {
+      this.phases[phase].push(task);
+      this.requestFrame();
+    }
+
+    public remove(task: () => void) {
+      for (var i = 0; i < this.phases.length; i++) {
+        var j = this.phases[i].indexOf(task);
+        if (j >= 0) {
+          this.phases[i].splice(j, 1);
+        }
+      }
+      if (this.frame && !this.hasTasks()) {
+        cancelAnimationFrame(this.frame);
+        this.frame = 0;
+      }
+    }
+
+    private hasTasks(): boolean {
+      for (var i = 0; i < this.phases.length; i++) {
+        if (this.phases[i].length) {
+          return true;
+        }
+      }
+      return false;
+    }
+
+    private requestFrame() {
+      if (!this.frame && typeof requestAnimationFrame !== "undefined") {
+        this.frame = requestAnimationFrame(this.boundTick);
+      }
+    }
+
+    private tick() {
+      this.frame = 0;
+      if (!this.hasTasks()) {
+        return;
+      }
+      // Request the next frame first so a task that throws doesn't stop the others for good.
+      this.requestFrame();
+      for (var i = 0; i < this.phases.length; i++) {
+        var tasks = this.phases[i].slice();
+        for (var j = 0; j < tasks.length; j++) {
+          // Skip tasks removed by an earlier task in this frame.
+          if (this.phases[i].indexOf(tasks[j]) >= 0) {
+            tasks[j]();
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Calls |callback| whenever the size of |element| changes, using a ResizeObserver where there is
+   * one and checking once per frame otherwise. Returns a function that stops observing.
+   */
+  function observeElementSize(element: HTMLElement, callback: () => void): () => void {
+    var w = element.clientWidth;
+    var h = element.clientHeight;
+    function check() {
+      if (w !== element.clientWidth || h !== element.clientHeight) {
+        w = element.clientWidth;
+        h = element.clientHeight;
+        callback();
+      }
+    }
+    if (typeof ResizeObserver !== "undefined") {
+      var observer = new ResizeObserver(check);
+      observer.observe(element);
+      return function () {
+        observer.disconnect();
+      };
+    }
+    Scheduler.shared.add(check, FramePhase.Input);
+    return function () {
+      Scheduler.shared.remove(check);
+    };
+  }
+
+  /**
+   * A named source of trace output, e.g. a subsystem. Its |color| is an RGB565 color, or -1 to use
+   * the theme's default foreground.
+   */
+  export class Channel {
+    constructor(public id: number, public name: string, public color: number) {
+      // ...
+    }
+  }
 
+  export class ChannelRegistry {
     /**
-     * Number of columns.
+     * Channels indexed by id, channel 0 is the default channel.
      */
-    get w() {
-      return Math.max(this.previousMaxLineWidth, this.i - this.starts[this.h]);
+    channels: Channel[];
+
+    private channelsByName: { [name: string]: Channel };
+
+    constructor() {
+      this.channels = [];
+      this.channelsByName = Object.create(null);
+      this.register("default");
     }
 
     /**
-     * Buffer index.
+     * Registers a channel, or returns the existing channel with the same name. At most 256
+     * channels can be registered since line channels are stored as bytes.
      */
-    i: number;
+    public register(name: string, color: number = -1): Channel {
+      var channel = this.channelsByName[name];
+      if (channel) {
+        return channel;
+      }
+      if (this.channels.length === 256) {
+        unexpected("Too many channels, using the default channel for " + name + ".");
+        return this.channels[0];
+      }
+      channel = new Channel(this.channels.length, name, color);
+      this.channels.push(channel);
+      this.channelsByName[name] = channel;
+      return channel;
+    }
+
+    public get(name: string): Channel {
+      return this.channelsByName[name] || null;
+    }
+  }
+
+  /**
+   * Prefixes |s| with copies of |padding| up to |width| characters.
+   */
+  function padLeft(s: string, width: number, padding: string): string {
+    while (s.length < width) {
+      s = padding + s;
+    }
+    return s;
+  }
+
+  /**
+   * Format string of records, with printf style conversions of numeric arguments: %d and %i for
+   * integers, %u for unsigned 32-bit integers, %x and %X for hexadecimal, %f for fixed point with
+   * an optional precision, e.g. %.2f, and %% for a percent sign. Conversions may have a minimum
+   * width, padded with spaces or with zeros if it starts with 0, e.g. %5d, %08x or %6.2f. Records
+   * are formatted only when their line is displayed, searched or exported, see
+   * |Buffer.writeRecord|.
+   */
+  export class Template {
+    static maxArguments = 4;
 
     /**
-     * Active 16 bit color.
+     * Code points of the text before each conversion and after the last one, wide characters are
+     * followed by a padding cell.
      */
-    color: number;
+    literals: Uint32Array[];
 
     /**
-     * Maximum h width so far.
+     * Character code, width, negative if padded with zeros, and precision, or -1, of each
+     * conversion.
      */
-    previousMaxLineWidth: number
+    conversions: number[];
+    widths: number[];
+    precisions: number[];
 
-    version: number;
-
-    constructor() {
-      this.color = 0xFFFF;
-      this.clear();
-      this.starts = new Uint32Array(32);
-      this.buffer = new Uint8Array(1024 * 1024);
-      this.colors = new Uint16Array(1024 * 1024);
+    constructor(public id: number, public format: string) {
+      this.literals = [];
+      this.conversions = [];
+      this.widths = [];
+      this.precisions = [];
+      var literal = [];
+      for (var i = 0; i < format.length; i++) {
+        var c = format.charCodeAt(i);
+        if (c === CharacterCode.Percent && i + 1 < format.length) {
+          if (format.charCodeAt(i + 1) === CharacterCode.Percent) {
+            literal.push(CharacterCode.Percent);
+            i++;
+            continue;
+          }
+          var match = /^(\d{0,3})(?:\.(\d{0,2}))?([diuxXf])/.exec(format.substring(i + 1, i + 9));
+          if (match && this.conversions.length < Template.maxArguments) {
+            this.literals.push(new Uint32Array(literal));
+            this.conversions.push(match[3].charCodeAt(0));
+            this.widths.push(match[1].charAt(0) === "0" ? -match[1] : +match[1]);
+            this.precisions.push(match[2] === undefined ? -1 : +match[2]);
+            literal = [];
+            i += match[0].length;
+            continue;
+          }
+          if (match) {
+            unexpected("Too many conversions in template " + format + ".");
+          }
+        }
+        if (isHighSurrogate(c) && i + 1 < format.length && isLowSurrogate(format.charCodeAt(i + 1))) {
+          c = decodeSurrogatePair(c, format.charCodeAt(++i));
+        }
+        literal.push(c);
+        if (isWideCodePoint(c)) {
+          literal.push(CharacterCode.WideCharacterPadding);
+        }
+      }
+      this.literals.push(new Uint32Array(literal));
     }
 
-    public clear() {
-      this.h = 0;
-      this.i = 0;
-      this.version = 0;
-      this.previousMaxLineWidth = 0;
+    get argumentCount(): number {
+      return this.conversions.length;
     }
 
-    public writeCharCode(x: number) {
-      if (this.buffer.length === this.i) {
-        var buffer = new Uint8Array(this.buffer.length * 2);
-        buffer.set(this.buffer, 0);
-        this.buffer = buffer;
-
-        var colors = new Uint16Array(this.colors.length * 2);
-        colors.set(this.colors, 0);
-        this.colors = colors;
+    /**
+     * Text of argument |value| for conversion |k|, padded to its width.
+     */
+    public formatArgument(k: number, value: number): string {
+      var text = this.formatValue(this.conversions[k], this.precisions[k], value);
+      var width = this.widths[k];
+      if (width < 0) {
+        var sign = text.charAt(0) === "-" ? "-" : "";
+        return sign + padLeft(text.substring(sign.length), -width - sign.length, "0");
       }
-      this.colors[this.i] = this.color;
-      this.buffer[this.i] = x;
-      this.i ++;
-      this.version ++;
+      return padLeft(text, width, " ");
     }
 
-    public writeString(s: string) {
-      for (var i = 0; i < s.length; i++) {
-        var c = s.charCodeAt(i);
-        if (c === CharacterCode.NewLine) {
-          this.writeLine();
-          continue;
-        }
-        this.writeCharCode(c);
+    private formatValue(conversion: number, precision: number, value: number): string {
+      if (conversion === CharacterCode.LowercaseF) {
+        return value.toFixed(precision < 0 ? 6 : Math.min(precision, 20));
+      }
+      var integer = value < 0 ? Math.ceil(value) : Math.floor(value);
+      if (conversion === CharacterCode.LowercaseU) {
+        return String(integer >>> 0);
+      }
+      if (conversion === CharacterCode.LowercaseX || conversion === CharacterCode.UppercaseX) {
+        // Negative 32-bit integers are shown in two's complement, like C does.
+        var hex = (integer < 0 && integer >= -0x80000000 ? integer >>> 0 : integer).toString(16);
+        return conversion === CharacterCode.UppercaseX ? hex.toUpperCase() : hex;
       }
+      return String(integer);
     }
+  }
 
-    public writeLine() {
-      if (this.starts.length === this.h + 1) {
-        var starts = new Uint32Array(this.starts.length * 2);
-        starts.set(this.starts, 0);
-        this.starts = starts;
+  export class TemplateRegistry {
+    /**
+     * Templates indexed by id.
+     */
+    templates: Template[];
+
+    private templatesByFormat: { [format: string]: Template };
+
+    constructor() {
+      this.templates = [];
+      this.templatesByFormat = Object.create(null);
+    }
+
+    /**
+     * Registers a template, or returns the existing template with the same format.
+     */
+    public register(format: string): Template {
+      var template = this.templatesByFormat[format];
+      if (!template) {
+        template = new Template(this.templates.length, format);
+        this.templates.push(template);
+        this.templatesByFormat[format] = template;
       }
-      this.previousMaxLineWidth = Math.max(this.previousMaxLineWidth, this.i - this.starts[this.h]);
-      this.starts[++this.h] = this.i;
-      this.version ++;
+      return template;
     }
-    
+  }
 
+  /**
+   * Cells of one line, from |start| up to |end| in |cells|, |colors| and |styles|, see
+   * |Buffer.getLine|.
+   */
+  export class LineCells {
+    cells: Uint32Array;
+    colors: Uint16Array;
+    styles: Uint32Array;
+    start: number;
+    end: number;
   }
 
-  export class Screen {
+  /**
+   * The line being written and the state of the writer, set aside by |Buffer.suspendLine|.
+   */
+  export class SuspendedLine {
+    cells: Uint32Array;
+    colors: Uint16Array;
+    styles: Uint32Array;
+    channel: number;
+    color: number;
+    style: number;
+    defaultColor: number;
+    foreground: number;
+    bold: boolean;
+    escapeState: number;
+    escapeParameters: Uint32Array;
+    escapeParameterIndex: number;
+    highSurrogate: number;
+  }
 
-    static vertexShader =
-      "uniform mat4 uTransformMatrix3D;                         " +
+  /**
+   * Bits of |Buffer.groups|.
+   */
+  enum GroupBits {
+    Depth = 0x7F,
+    Header = 0x80
+  }
 
-      "attribute vec4 aPosition;                                " +
-      "attribute vec2 aCoordinate;                              " +
+  /**
+   * Fields of a record in |Buffer.recordData|, followed by its arguments.
+   */
+  enum RecordField {
+    Template,
 
-      "varying vec2 vCoordinate;                                " +
-      "varying vec2 vCoordinate2;                               " +
+    /**
+     * Number of cells once formatted, or -1 if it hasn't been formatted yet.
+     */
+    Length,
+    Color,
+    Style,
+    Arguments
+  }
 
-      "void main() {                                            " +
-      "  gl_Position = uTransformMatrix3D * aPosition;          " +
-      "  vCoordinate = aCoordinate;                             " +
-      "  vCoordinate2 = aCoordinate;                            " +
-      "}";
+  export interface BufferOptions {
+    /**
+     * Maximum number of characters retained, or 0 if unbounded. Each record counts as many
+     * characters as the numbers it stores, see |RecordField|.
+     */
+    maxBytes?: number;
 
-    static fragmentShader =
-      "precision mediump float;                                 " +
-      "uniform sampler2D uTileSampler;                          " +
-      "uniform sampler2D uTileMapSampler;                       " +
-      "uniform sampler2D uColorPaletteSampler;                  " +
+    /**
+     * Maximum number of lines retained, or 0 if unbounded.
+     */
+    maxLines?: number;
 
-      "varying vec2 vCoordinate;                                " +
-      "varying vec2 vCoordinate2;                               " +
+    /**
+     * Channel registry, buffers can share one so that channel ids agree.
+     */
+    channelRegistry?: ChannelRegistry;
 
-      "uniform float uTime;                                     " +
-      "uniform vec2 uTileSize;                                  " +
-      "uniform vec2 uScaledTileSize;                            " +
+    /**
+     * Whether to record the time each line is completed.
+     */
+    timestamps?: boolean;
 
-      "void main() {                                            " +
-      "  float time = uTime;                                    " +
-      "  vec4 tile = texture2D(uTileMapSampler, vCoordinate);   " +
-      "  if (tile.x == 0.0 && tile.y == 0.0) { discard; }       " +
-      "  vec2 tileOffset = floor(tile.xy * 256.0) * uTileSize;  " +
-      "  vec2 tileCoordinate = tileOffset + mod(vCoordinate, uScaledTileSize) * (uTileSize / uScaledTileSize);" +
-      //"  gl_FragColor = texture2D(uTileSampler, tileCoordinate);   " +
-      "  vec4 color = texture2D(uTileSampler, tileCoordinate) * texture2D(uColorPaletteSampler, tile.zw);   " +
-      "  color.rgb *= color.a;" +
-      "  gl_FragColor = color;" +
-      "}";
+    /**
+     * Template registry, buffers can share one so that template ids agree.
+     */
+    templateRegistry?: TemplateRegistry;
+  }
 
-    private gl: WebGLRenderingContext;
-    public canvas: HTMLCanvasElement;
-    private ratio: number;
-    private program;
+  export class Buffer {
+    /**
+     * Saved buffer header: magic number, format version, line count, cell count and the length of
+     * the channel table. See |save|.
+     */
+    static savedMagic = 0x4A534254;
+    static savedVersion = 2;
 
-    private spriteCanvas: HTMLCanvasElement;
+    starts: Uint32Array;
 
-    private tileW: number;
-    private tileH: number;
-    private tileColumns: number;
+    /**
+     * Code points, one per cell. Wide characters are followed by a padding cell.
+     */
+    buffer: Uint32Array;
+    colors: Uint16Array;
 
     /**
-     * Number of columns.
+     * Background color and attributes of each cell, see |Attribute|.
      */
-    public w: number;
+    styles: Uint32Array;
 
     /**
-     * Number of rows.
+     * Channel id of each line.
      */
-    public h: number;
+    channels: Uint8Array;
 
-    private tileTexture;
+    /**
+     * Time each line was completed, from |performance.now|, or null if timestamps aren't recorded.
+     */
+    times: Float64Array;
+
+    channelRegistry: ChannelRegistry;
+    templateRegistry: TemplateRegistry;
+
+    /**
+     * Offset in |recordData| of the record on each line, or -1 for text lines. Record lines have no
+     * cells of their own, use |getLine| to read them. Null until the first record is written.
+     */
+    records: Int32Array;
+
+    /**
+     * Records, see |RecordField|, in line order.
+     */
+    private recordData: Float64Array;
+    private recordEnd: number;
+
+    /**
+     * Record of the line being completed, or -1.
+     */
+    private nextRecord: number;
+
+    /**
+     * Number of lines whose records have been formatted at least once, so that their width is
+     * included in |previousMaxLineWidth|.
+     */
+    private measuredLines: number;
+
+    /**
+     * Time to record for the line being completed instead of the current time, or -1.
+     */
+    protected nextLineTime: number;
+
+    /**
+     * Group nesting depth of each line, with the |GroupBits.Header| bit set on the lines that open
+     * a group. Null until the first group is opened.
+     */
+    groups: Uint8Array;
+
+    /**
+     * Number of open groups, lines are indented by |indentWidth| cells for each one.
+     */
+    groupDepth: number;
+    indentWidth: number;
+
+    /**
+     * Whether the line being completed opens a group.
+     */
+    private nextGroupHeader: boolean;
+
+    /**
+     * Returned by |getLine|, with the cells records are formatted into.
+     */
+    private line: LineCells;
+    private formatCells: Uint32Array;
+    private formatColors: Uint16Array;
+    private formatStyles: Uint32Array;
+
+    /**
+     * Active channel, lines are tagged with the channel that is active when they are completed.
+     */
+    channel: number;
+
+    /**
+     * Number of rows.
+     */
+    h: number;
+
+    /**
+     * Number of columns. Records that haven't been formatted yet are formatted to measure them.
+     */
+    get w() {
+      this.measureRecords();
+      return Math.max(this.previousMaxLineWidth, this.i - this.starts[this.h]);
+    }
+
+    /**
+     * Buffer index.
+     */
+    i: number;
+
+    /**
+     * Active 16 bit color.
+     */
+    color: number;
+
+    /**
+     * Active style, set by SGR sequences.
+     */
+    style: number;
+
+    /**
+     * Maximum h width so far.
+     */
+    previousMaxLineWidth: number
+
+    version: number;
+
+    /**
+     * Capacity limits, the oldest lines are evicted once either one is reached. Lines are evicted
+     * in batches of roughly an eighth of the capacity so that compacting the retained contents is
+     * amortized over many writes. The line currently being written is never evicted.
+     */
+    maxBytes: number;
+    maxLines: number;
+
+    /**
+     * Total number of lines evicted so far, views use this to keep their scroll position anchored
+     * to the same content.
+     */
+    evicted: number;
+
+    /**
+     * Color restored by an SGR reset sequence, or -1 for the theme's default foreground.
+     */
+    defaultColor: number;
+
+    private escapeState: EscapeState;
+    private escapeParameters: Uint32Array;
+
+    /**
+     * Index of the escape sequence parameter currently being parsed.
+     */
+    private escapeParameterIndex: number;
+
+    /**
+     * Active ANSI color index, or -1 if the active color is not an indexed color.
+     */
+    private foreground: number;
+    private bold: boolean;
+
+    /**
+     * High surrogate waiting for its low surrogate, or 0.
+     */
+    private highSurrogate: number;
+
+    constructor(options: BufferOptions = {}) {
+      this.defaultColor = -1;
+      this.style = 0;
+      this.maxBytes = options.maxBytes || 0;
+      this.maxLines = options.maxLines || 0;
+      this.h = this.evicted = 0;
+      this.channelRegistry = options.channelRegistry || new ChannelRegistry();
+      this.templateRegistry = options.templateRegistry || new TemplateRegistry();
+      this.records = null;
+      this.recordData = null;
+      this.nextRecord = -1;
+      this.nextLineTime = -1;
+      this.groups = null;
+      this.indentWidth = 2;
+      this.nextGroupHeader = false;
+      this.line = new LineCells();
+      this.formatCells = new Uint32Array(256);
+      this.formatColors = new Uint16Array(256);
+      this.formatStyles = new Uint32Array(256);
+      this.channel = 0;
+      this.escapeParameters = new Uint32Array(16);
+      this.clear();
+      this.setForeground(-1);
+      var size = 1024 * 1024;
+      if (this.maxBytes) {
+        size = Math.min(size, this.maxBytes);
+      }
+      this.starts = new Uint32Array(32);
+      this.channels = new Uint8Array(32);
+      this.times = options.timestamps ? new Float64Array(32) : null;
+      this.buffer = new Uint32Array(size);
+      this.colors = new Uint16Array(size);
+      this.styles = new Uint32Array(size);
+    }
+
+    public clear() {
+      // Cleared lines count as evicted, so absolute line numbers keep increasing.
+      this.evicted += this.h;
+      this.h = 0;
+      this.i = 0;
+      this.recordEnd = 0;
+      this.measuredLines = 0;
+      this.groupDepth = 0;
+      this.version = 0;
+      this.previousMaxLineWidth = 0;
+      this.escapeState = EscapeState.None;
+      this.foreground = -1;
+      this.bold = false;
+      this.highSurrogate = 0;
+    }
+
+    /**
+     * Writes code point |x|, followed by a padding cell if it is a wide character.
+     */
+    public writeCharCode(x: number) {
+      if (this.groupDepth && this.i === this.starts[this.h]) {
+        this.writeIndentation();
+      }
+      this.writeCell(x, this.color, this.style);
+      if (isWideCodePoint(x)) {
+        this.writeCell(CharacterCode.WideCharacterPadding, this.color, this.style);
+      }
+    }
+
+    protected writeIndentation() {
+      for (var k = this.groupDepth * this.indentWidth; k > 0; k--) {
+        this.writeCell(CharacterCode.Space, this.color, this.style);
+      }
+    }
+
+    protected writeCell(x: number, color: number, style: number) {
+      if (this.maxBytes && this.i + this.recordEnd >= this.maxBytes && this.h > 0) {
+        this.evictBytes(Math.max(1, this.maxBytes >> 3));
+      }
+      if (this.buffer.length === this.i) {
+        var length = this.buffer.length * 2;
+        if (this.maxBytes && this.i < this.maxBytes) {
+          length = Math.min(length, this.maxBytes);
+        }
+        var buffer = new Uint32Array(length);
+        buffer.set(this.buffer, 0);
+        this.buffer = buffer;
+
+        var colors = new Uint16Array(length);
+        colors.set(this.colors, 0);
+        this.colors = colors;
+
+        var styles = new Uint32Array(length);
+        styles.set(this.styles, 0);
+        this.styles = styles;
+      }
+      this.colors[this.i] = color;
+      this.styles[this.i] = style;
+      this.buffer[this.i] = x;
+      this.i ++;
+      this.version ++;
+    }
+
+    /**
+     * Writes a string, interpreting new lines and ANSI escape sequences. Escape sequences and
+     * surrogate pairs may be split across multiple calls.
+     */
+    public writeString(s: string) {
+      for (var i = 0; i < s.length; i++) {
+        var c = s.charCodeAt(i);
+        if (this.escapeState !== EscapeState.None && this.writeEscapeCharCode(c)) {
+          continue;
+        }
+        if (this.highSurrogate) {
+          if (isLowSurrogate(c)) {
+            this.writeCharCode(decodeSurrogatePair(this.highSurrogate, c));
+            this.highSurrogate = 0;
+            continue;
+          }
+          this.highSurrogate = 0;
+          this.writeCharCode(CharacterCode.ReplacementCharacter);
+        }
+        if (isHighSurrogate(c)) {
+          this.highSurrogate = c;
+          continue;
+        }
+        if (isLowSurrogate(c)) {
+          c = CharacterCode.ReplacementCharacter;
+        }
+        if (c === CharacterCode.Escape) {
+          this.escapeState = EscapeState.Escape;
+          continue;
+        }
+        if (c === CharacterCode.NewLine) {
+          this.writeLine();
+          continue;
+        }
+        this.writeCharCode(c);
+      }
+    }
+
+    /**
+     * Continues the escape sequence being parsed with |c|. Returns false if |c| is a control
+     * character, which aborts the sequence and is then written as usual.
+     */
+    private writeEscapeCharCode(c: number): boolean {
+      var parameters = this.escapeParameters;
+      if (c < 0x20) {
+        this.escapeState = EscapeState.None;
+        return false;
+      }
+      if (this.escapeState === EscapeState.Escape) {
+        if (c === CharacterCode.LeftBracket) {
+          this.escapeState = EscapeState.ControlSequence;
+          this.escapeParameterIndex = 0;
+          parameters[0] = 0;
+        } else {
+          // Only control sequences are supported, other escape sequences are dropped.
+          this.escapeState = EscapeState.None;
+        }
+        return true;
+      }
+      var index = this.escapeParameterIndex;
+      if (c >= CharacterCode.Zero && c <= CharacterCode.Nine) {
+        if (index < parameters.length) {
+          parameters[index] = parameters[index] * 10 + (c - CharacterCode.Zero);
+        }
+      } else if (c === CharacterCode.Semicolon) {
+        if (++this.escapeParameterIndex < parameters.length) {
+          parameters[this.escapeParameterIndex] = 0;
+        }
+      } else if (c >= 0x40 && c <= 0x7E) {
+        // Final byte, anything other than SGR is ignored.
+        if (c === CharacterCode.LowercaseM) {
+          this.selectGraphicRendition(Math.min(index + 1, parameters.length));
+        }
+        this.escapeState = EscapeState.None;
+      } else if (c > 0x7E) {
+        unexpected("Malformed control sequence.");
+        this.escapeState = EscapeState.None;
+      }
+      return true;
+    }
+
+    private selectGraphicRendition(count: number) {
+      var parameters = this.escapeParameters;
+      for (var k = 0; k < count; k++) {
+        var code = parameters[k];
+        if (code === 0) {
+          this.bold = false;
+          this.style = 0;
+          this.setForeground(-1);
+        } else if (code === 1) {
+          this.bold = true;
+          this.setAttribute(Attribute.Bold, true);
+          this.updateBrightForeground();
+        } else if (code === 2) {
+          this.setAttribute(Attribute.Dim, true);
+        } else if (code === 4) {
+          this.setAttribute(Attribute.Underline, true);
+        } else if (code === 7) {
+          this.setAttribute(Attribute.Inverse, true);
+        } else if (code === 22) {
+          this.bold = false;
+          this.setAttribute(Attribute.Bold | Attribute.Dim, false);
+          this.updateBrightForeground();
+        } else if (code === 24) {
+          this.setAttribute(Attribute.Underline, false);
+        } else if (code === 27) {
+          this.setAttribute(Attribute.Inverse, false);
+        } else if (code >= 30 && code <= 37) {
+          this.setForeground(code - 30);
+        } else if (code >= 90 && code <= 97) {
+          this.setForeground(code - 90 + 8);
+        } else if (code === 39) {
+          this.setForeground(-1);
+        } else if (code >= 40 && code <= 47) {
+          this.setBackground(code - 40, true);
+        } else if (code >= 100 && code <= 107) {
+          this.setBackground(code - 100 + 8, true);
+        } else if (code === 49) {
+          this.setBackground(-1);
+        } else if (code === 38 || code === 48) {
+          // Extended colors.
+          var mode = parameters[k + 1];
+          if (mode === 5 && k + 2 < count) {
+            if (code === 38) {
+              this.setForeground(parameters[k + 2] & 0xFF);
+            } else {
+              this.setBackground(parameters[k + 2] & 0xFF, true);
+            }
+            k += 2;
+          } else if (mode === 2 && k + 4 < count) {
+            var color = packColor(parameters[k + 2], parameters[k + 3], parameters[k + 4]);
+            if (code === 38) {
+              this.foreground = -1;
+              this.color = color;
+              this.setAttribute(Attribute.IndexedForeground, false);
+            } else {
+              this.setBackground(color);
+            }
+            k += 4;
+          } else {
+            break;
+          }
+        }
+      }
+    }
+
+    /**
+     * Sets the active color to an indexed color, or to the default color if |index| is -1. Bold
+     * text uses the bright variants of the first 8 ANSI colors.
+     */
+    private setForeground(index: number) {
+      this.foreground = index;
+      if (index < 0 && this.defaultColor >= 0) {
+        this.color = this.defaultColor;
+        this.setAttribute(Attribute.IndexedForeground, false);
+        return;
+      }
+      if (index < 0) {
+        index = PaletteIndex.DefaultForeground;
+      } else if (this.bold && index < 8) {
+        index += 8;
+      }
+      this.color = index;
+      this.setAttribute(Attribute.IndexedForeground, true);
+    }
+
+    /**
+     * Switches between an ANSI color and its bright variant as bold is turned on or off. Default,
+     * 256-color and 24-bit colors don't change.
+     */
+    private updateBrightForeground() {
+      if (this.foreground >= 0 && this.foreground < 16) {
+        this.setForeground(this.foreground);
+      }
+    }
+
+    /**
+     * Sets the active background color to an RGB565 color or, if |indexed|, a palette index.
+     * Removes it if |color| is -1.
+     */
+    private setBackground(color: number, indexed: boolean = false) {
+      var attributes = styleAttributes(this.style) & ~(Attribute.Background | Attribute.IndexedBackground);
+      if (color >= 0) {
+        attributes |= Attribute.Background | (indexed ? Attribute.IndexedBackground : 0);
+      }
+      this.style = packStyle(color < 0 ? 0 : color, attributes);
+    }
+
+    private setAttribute(attribute: number, value: boolean) {
+      var attributes = styleAttributes(this.style);
+      attributes = value ? attributes | attribute : attributes & ~attribute;
+      this.style = packStyle(styleBackground(this.style), attributes);
+    }
+
+    public writeLine() {
+      if (this.maxLines && this.h >= this.maxLines) {
+        this.evictLines(Math.max(1, this.maxLines >> 3));
+      }
+      if (this.starts.length === this.h + 1) {
+        var starts = new Uint32Array(this.starts.length * 2);
+        starts.set(this.starts, 0);
+        this.starts = starts;
+
+        var channels = new Uint8Array(this.channels.length * 2);
+        channels.set(this.channels, 0);
+        this.channels = channels;
+
+        if (this.times) {
+          var times = new Float64Array(this.times.length * 2);
+          times.set(this.times, 0);
+          this.times = times;
+        }
+
+        if (this.records) {
+          var records = new Int32Array(this.records.length * 2);
+          records.set(this.records, 0);
+          this.records = records;
+        }
+
+        if (this.groups) {
+          var groups = new Uint8Array(this.groups.length * 2);
+          groups.set(this.groups, 0);
+          this.groups = groups;
+        }
+      }
+      this.channels[this.h] = this.channel;
+      if (this.times) {
+        this.times[this.h] = this.nextLineTime >= 0 ? this.nextLineTime : performance.now();
+      }
+      this.nextLineTime = -1;
+      if (this.records) {
+        this.records[this.h] = this.nextRecord;
+        this.nextRecord = -1;
+      }
+      if (this.groups) {
+        this.groups[this.h] = this.groupDepth | (this.nextGroupHeader ? GroupBits.Header : 0);
+        this.nextGroupHeader = false;
+      }
+      this.previousMaxLineWidth = Math.max(this.previousMaxLineWidth, this.i - this.starts[this.h]);
+      this.starts[++this.h] = this.i;
+      this.version ++;
+    }
+
+    /**
+     * Writes |name| as a line that opens a group, lines written until the matching |closeGroup|
+     * belong to the group and are indented one level deeper. The header leaves |indentWidth| cells
+     * before the name for views to draw a fold marker in. Completes the line being written first.
+     */
+    public openGroup(name: string) {
+      if (this.i > this.starts[this.h]) {
+        this.writeLine();
+      }
+      if (!this.groups) {
+        this.groups = new Uint8Array(this.starts.length);
+      }
+      if (this.groupDepth === GroupBits.Depth) {
+        unexpected("Groups are nested too deeply, " + name + " is not opened.");
+        return;
+      }
+      this.writeIndentation();
+      for (var k = 0; k < this.indentWidth; k++) {
+        this.writeCell(CharacterCode.Space, this.color, this.style);
+      }
+      this.writeString(name);
+      this.nextGroupHeader = true;
+      this.writeLine();
+      this.groupDepth++;
+    }
+
+    /**
+     * Closes the innermost open group, completing the line being written first.
+     */
+    public closeGroup() {
+      if (this.i > this.starts[this.h]) {
+        this.writeLine();
+      }
+      if (this.groupDepth > 0) {
+        this.groupDepth--;
+      }
+    }
+
+    public getGroupDepth(y: number): number {
+      return this.groups && y < this.h ? this.groups[y] & GroupBits.Depth : 0;
+    }
+
+    public isGroupHeader(y: number): boolean {
+      return !!this.groups && y < this.h && (this.groups[y] & GroupBits.Header) !== 0;
+    }
+
+    /**
+     * Header line of the innermost group that contains line |y|, |y| itself if it is a header, or
+     * -1 if it isn't in a group or the header was evicted.
+     */
+    public getGroupStart(y: number): number {
+      if (this.isGroupHeader(y)) {
+        return y;
+      }
+      var depth = this.getGroupDepth(y);
+      for (var k = y - 1; k >= 0 && depth > 0; k--) {
+        // Lines in between are nested at least as deeply, the first shallower one is the header.
+        if (this.getGroupDepth(k) < depth) {
+          return this.isGroupHeader(k) ? k : -1;
+        }
+      }
+      return -1;
+    }
+
+    /**
+     * Line after the last line of the group opened by header line |y|.
+     */
+    public getGroupEnd(y: number): number {
+      var depth = this.getGroupDepth(y);
+      var k = y + 1;
+      while (k < this.h && this.getGroupDepth(k) > depth) {
+        k++;
+      }
+      return k;
+    }
+
+    public registerTemplate(format: string): Template {
+      return this.templateRegistry.register(format);
+    }
+
+    /**
+     * Writes a line with a record of |template| and its numeric arguments, in the active color and
+     * style. Only the template id and the arguments are stored, no strings are created until the
+     * line is read with |getLine|. Completes the line being written first.
+     */
+    public writeRecord(template: Template, a: number = 0, b: number = 0, c: number = 0, d: number = 0) {
+      if (this.templateRegistry.templates[template.id] !== template) {
+        unexpected("Cannot write a record of a template from another registry.");
+        return;
+      }
+      if (this.i > this.starts[this.h]) {
+        this.writeLine();
+      }
+      if (!this.records) {
+        this.records = new Int32Array(this.starts.length);
+        for (var y = 0; y < this.h; y++) {
+          this.records[y] = -1;
+        }
+        this.recordData = new Float64Array(1024);
+      }
+      var size = RecordField.Arguments + template.argumentCount;
+      if (this.maxBytes && this.i + this.recordEnd + size > this.maxBytes && this.h > 0) {
+        this.evictBytes(Math.max(size, this.maxBytes >> 3));
+      }
+      if (this.recordEnd + size > this.recordData.length) {
+        var recordData = new Float64Array(Math.max(this.recordData.length * 2, this.recordEnd + size));
+        recordData.set(this.recordData.subarray(0, this.recordEnd), 0);
+        this.recordData = recordData;
+      }
+      var offset = this.recordEnd;
+      var data = this.recordData;
+      data[offset + RecordField.Template] = template.id;
+      data[offset + RecordField.Length] = -1;
+      data[offset + RecordField.Color] = this.color;
+      data[offset + RecordField.Style] = this.style;
+      var args = offset + RecordField.Arguments;
+      // Each case falls through to store the arguments before it.
+      switch (template.argumentCount) {
+        case 4: data[args + 3] = d;
+        case 3: data[args + 2] = c;
+        case 2: data[args + 1] = b;
+        case 1: data[args] = a;
+      }
+      this.recordEnd += size;
+      this.nextRecord = offset;
+      this.writeLine();
+    }
+
+    /**
+     * Cells of line |y|, which may be the line being written. Records are formatted into cells
+     * that the next |getLine| call reuses, don't hold on to the result.
+     */
+    public getLine(y: number): LineCells {
+      var line = this.line;
+      var record = this.records && y < this.h ? this.records[y] : -1;
+      if (record < 0) {
+        line.cells = this.buffer;
+        line.colors = this.colors;
+        line.styles = this.styles;
+        line.start = this.starts[y];
+        line.end = y < this.h ? this.starts[y + 1] : this.i;
+        return line;
+      }
+      line.end = this.formatRecord(record, this.getGroupDepth(y) * this.indentWidth);
+      line.cells = this.formatCells;
+      line.colors = this.formatColors;
+      line.styles = this.formatStyles;
+      line.start = 0;
+      return line;
+    }
+
+    /**
+     * Number of cells of line |y|, records are formatted the first time they are measured.
+     */
+    public getLineLength(y: number): number {
+      var record = this.records && y < this.h ? this.records[y] : -1;
+      if (record < 0) {
+        return (y < this.h ? this.starts[y + 1] : this.i) - this.starts[y];
+      }
+      var length = this.recordData[record + RecordField.Length];
+      return length >= 0 ? length : this.formatRecord(record, this.getGroupDepth(y) * this.indentWidth);
+    }
+
+    public isRecord(y: number): boolean {
+      return !!this.records && y < this.h && this.records[y] >= 0;
+    }
+
+    /**
+     * Formats the records written since the last call once, so that |previousMaxLineWidth|
+     * includes them.
+     */
+    private measureRecords() {
+      if (!this.records) {
+        return;
+      }
+      for (var y = this.measuredLines; y < this.h; y++) {
+        if (this.records[y] >= 0) {
+          this.getLineLength(y);
+        }
+      }
+      this.measuredLines = this.h;
+    }
+
+    /**
+     * Formats the record at |offset|, indented by |indent| cells, into the format cells and returns
+     * its length.
+     */
+    private formatRecord(offset: number, indent: number): number {
+      var data = this.recordData;
+      var template = this.templateRegistry.templates[data[offset + RecordField.Template]];
+      var n = this.reserveFormatCells(0, indent);
+      while (n < indent) {
+        this.formatCells[n++] = CharacterCode.Space;
+      }
+      for (var k = 0; k <= template.argumentCount; k++) {
+        var literal = template.literals[k];
+        n = this.reserveFormatCells(n, literal.length);
+        this.formatCells.set(literal, n);
+        n += literal.length;
+        if (k < template.argumentCount) {
+          var text = template.formatArgument(k, data[offset + RecordField.Arguments + k]);
+          n = this.reserveFormatCells(n, text.length);
+          for (var i = 0; i < text.length; i++) {
+            this.formatCells[n++] = text.charCodeAt(i);
+          }
+        }
+      }
+      var color = data[offset + RecordField.Color];
+      var style = data[offset + RecordField.Style];
+      for (var p = 0; p < n; p++) {
+        this.formatColors[p] = color;
+        this.formatStyles[p] = style;
+      }
+      if (data[offset + RecordField.Length] < 0) {
+        data[offset + RecordField.Length] = n;
+        this.previousMaxLineWidth = Math.max(this.previousMaxLineWidth, n);
+      }
+      return n;
+    }
+
+    /**
+     * Grows the format cells to fit |length| more after the first |n|, and returns |n|.
+     */
+    private reserveFormatCells(n: number, length: number): number {
+      if (n + length > this.formatCells.length) {
+        var size = Math.max(this.formatCells.length * 2, n + length);
+        var cells = new Uint32Array(size);
+        cells.set(this.formatCells, 0);
+        this.formatCells = cells;
+        this.formatColors = new Uint16Array(size);
+        this.formatStyles = new Uint32Array(size);
+      }
+      return n;
+    }
+
+    /**
+     * Makes |channel| the active channel and its color the default color.
+     */
+    public setChannel(channel: Channel) {
+      this.channel = channel.id;
+      this.defaultColor = channel.color;
+      this.setForeground(-1);
+    }
+
+    /**
+     * Sets the line being written aside, with the active channel, colors, style and any escape
+     * sequence or surrogate pair in progress, so that complete lines can be written in between
+     * without ending it. They are written with the default style and colors. |resumeLine| puts it
+     * back.
+     */
+    public suspendLine(): SuspendedLine {
+      var line = new SuspendedLine();
+      var s = this.starts[this.h];
+      line.cells = this.buffer.slice(s, this.i);
+      line.colors = this.colors.slice(s, this.i);
+      line.styles = this.styles.slice(s, this.i);
+      line.channel = this.channel;
+      line.color = this.color;
+      line.style = this.style;
+      line.defaultColor = this.defaultColor;
+      line.foreground = this.foreground;
+      line.bold = this.bold;
+      line.escapeState = this.escapeState;
+      line.escapeParameters = this.escapeParameters.slice(0);
+      line.escapeParameterIndex = this.escapeParameterIndex;
+      line.highSurrogate = this.highSurrogate;
+      this.i = s;
+      this.escapeState = EscapeState.None;
+      this.highSurrogate = 0;
+      this.bold = false;
+      this.style = 0;
+      this.setForeground(-1);
+      return line;
+    }
+
+    /**
+     * Continues writing |line|, set aside by |suspendLine|.
+     */
+    public resumeLine(line: SuspendedLine) {
+      if (this.i > this.starts[this.h]) {
+        this.writeLine();
+      }
+      for (var k = 0; k < line.cells.length; k++) {
+        this.writeCell(line.cells[k], line.colors[k], line.styles[k]);
+      }
+      this.channel = line.channel;
+      this.color = line.color;
+      this.style = line.style;
+      this.defaultColor = line.defaultColor;
+      this.foreground = line.foreground;
+      this.bold = line.bold;
+      this.escapeState = line.escapeState;
+      this.escapeParameters.set(line.escapeParameters, 0);
+      this.escapeParameterIndex = line.escapeParameterIndex;
+      this.highSurrogate = line.highSurrogate;
+    }
+
+    /**
+     * First line completed at or after |time|, or |h| if there is none. Returns -1 if timestamps
+     * aren't recorded.
+     */
+    public findLineAtTime(time: number): number {
+      var times = this.times;
+      if (!times) {
+        return -1;
+      }
+      var lo = 0;
+      var hi = this.h;
+      while (lo < hi) {
+        var mid = (lo + hi) >> 1;
+        if (times[mid] < time) {
+          lo = mid + 1;
+        } else {
+          hi = mid;
+        }
+      }
+      return lo;
+    }
+
+    /**
+     * Decodes the cells of line |y| from column |start| up to column |end| into a string.
+     */
+    public getLineText(y: number, start: number = 0, end: number = Infinity): string {
+      var line = this.getLine(y);
+      var cells = line.cells;
+      var s = line.start;
+      var e = Math.min(line.end, s + end);
+      var units = [];
+      var text = "";
+      for (var p = Math.min(e, s + start); p < e; p++) {
+        var c = cells[p];
+        if (c === CharacterCode.WideCharacterPadding) {
+          continue;
+        }
+        if (c > 0xFFFF) {
+          c -= 0x10000;
+          units.push(0xD800 + (c >> 10), 0xDC00 + (c & 0x3FF));
+        } else {
+          units.push(c);
+        }
+        if (units.length >= 4096) {
+          text += String.fromCharCode.apply(null, units);
+          units.length = 0;
+        }
+      }
+      return text + String.fromCharCode.apply(null, units);
+    }
+
+    /**
+     * Plain text of lines |start| up to |end|, separated by new lines.
+     */
+    public toText(start: number = 0, end: number = this.h): string {
+      var lines = [];
+      for (var y = start; y < end; y++) {
+        lines.push(this.getLineText(y));
+      }
+      return lines.join("\n");
+    }
+
+    /**
+     * Self-contained HTML document of lines |start| up to |end| that preserves their colors and
+     * styles, indexed colors are taken from |theme|.
+     */
+    public toHTML(start: number = 0, end: number = this.h, theme: Theme = Theme.dark): string {
+      var html = [
+        '<!DOCTYPE html><html><head><meta charset="UTF-8"></head>',
+        '<body style="background-color: ' + rgbToCSS(theme.background) + ';">',
+        '<pre style="font-family: Input Mono Condensed, Consolas, Courier, monospace;">'
+      ];
+      for (var y = start; y < end; y++) {
+        var line = this.getLine(y);
+        var colors = line.colors;
+        var styles = line.styles;
+        var s = line.start;
+        var e = line.end;
+        // Emit one span per run of cells with the same color and style.
+        for (var p = s; p < e;) {
+          var q = p + 1;
+          while (q < e && colors[q] === colors[p] && styles[q] === styles[p]) {
+            q ++;
+          }
+          var color = colors[p];
+          var style = styles[p];
+          // Reads the line again, which formats records into the same cells.
+          var text = this.getLineText(y, p - s, q - s);
+          html.push('<span style="' + styleToCSS(color, style, theme) + '">' + escapeHTML(text) + '</span>');
+          p = q;
+        }
+        html.push("\n");
+      }
+      html.push("</pre></body></html>");
+      return html.join("");
+    }
+
+    /**
+     * Saves lines |start| up to |end| in a compact binary format that round-trips their cells,
+     * colors, styles, line starts and channels exactly. The format is a header of 6 32-bit words
+     * followed by the line starts, cells, styles, colors, the channel table as JSON in UTF-16 code
+     * units and the line channels, all in platform byte order. Version 1 had no styles. Records are
+     * saved as their formatted cells.
+     */
+    public save(start: number = 0, end: number = this.h): ArrayBuffer {
+      var lines = end - start;
+      var cells = 0;
+      for (var y = start; y < end; y++) {
+        cells += this.getLineLength(y);
+      }
+      var registry = this.channelRegistry.channels.map(function (channel) {
+        return { name: channel.name, color: channel.color };
+      });
+      var table = JSON.stringify(registry);
+      var startsOffset = 24;
+      var cellsOffset = startsOffset + (lines + 1) * 4;
+      var stylesOffset = cellsOffset + cells * 4;
+      var colorsOffset = stylesOffset + cells * 4;
+      var tableOffset = colorsOffset + cells * 2;
+      var channelsOffset = tableOffset + table.length * 2;
+      var data = new ArrayBuffer(channelsOffset + lines);
+
+      var header = new Uint32Array(data, 0, 6);
+      header[0] = Buffer.savedMagic;
+      header[1] = Buffer.savedVersion;
+      header[2] = lines;
+      header[3] = cells;
+      header[4] = table.length;
+
+      var starts = new Uint32Array(data, startsOffset, lines + 1);
+      var savedCells = new Uint32Array(data, cellsOffset, cells);
+      var savedStyles = new Uint32Array(data, stylesOffset, cells);
+      var savedColors = new Uint16Array(data, colorsOffset, cells);
+      starts[0] = 0;
+      for (var y = 0; y < lines; y++) {
+        var line = this.getLine(start + y);
+        savedCells.set(line.cells.subarray(line.start, line.end), starts[y]);
+        savedStyles.set(line.styles.subarray(line.start, line.end), starts[y]);
+        savedColors.set(line.colors.subarray(line.start, line.end), starts[y]);
+        starts[y + 1] = starts[y] + line.end - line.start;
+      }
+      var tableUnits = new Uint16Array(data, tableOffset, table.length);
+      for (var i = 0; i < table.length; i++) {
+        tableUnits[i] = table.charCodeAt(i);
+      }
+      new Uint8Array(data, channelsOffset, lines).set(this.channels.subarray(start, end));
+      return data;
+    }
+
+    /**
+     * Appends the lines saved by |save|, completing the line being written first. Saved channels
+     * are registered by name. Returns false, leaving the buffer as it is, if |data| isn't a saved
+     * buffer or is truncated or corrupt.
+     */
+    public load(data: ArrayBuffer): boolean {
+      var header = data.byteLength >= 24 ? new Uint32Array(data, 0, 6) : null;
+      if (!header || header[0] !== Buffer.savedMagic || header[1] < 1 || header[1] > Buffer.savedVersion) {
+        unexpected("Cannot load buffer, unknown format.");
+        return false;
+      }
+      var lines = header[2];
+      var cells = header[3];
+      var startsOffset = 24;
+      var cellsOffset = startsOffset + (lines + 1) * 4;
+      var stylesOffset = cellsOffset + cells * 4;
+      var colorsOffset = header[1] > 1 ? stylesOffset + cells * 4 : stylesOffset;
+      var tableOffset = colorsOffset + cells * 2;
+      var channelsOffset = tableOffset + header[4] * 2;
+      if (data.byteLength < channelsOffset + lines) {
+        unexpected("Cannot load buffer, the data is truncated.");
+        return false;
+      }
+      var starts = new Uint32Array(data, startsOffset, lines + 1);
+      var buffer = new Uint32Array(data, cellsOffset, cells);
+      var styles = header[1] > 1 ? new Uint32Array(data, stylesOffset, cells) : new Uint32Array(cells);
+      var colors = new Uint16Array(data, colorsOffset, cells);
+      var channels = new Uint8Array(data, channelsOffset, lines);
+      var table;
+      try {
+        table = JSON.parse(String.fromCharCode.apply(null, new Uint16Array(data, tableOffset, header[4])));
+      } catch (e) {
+        table = null;
+      }
+      if (!isSavedDataValid(starts, cells, table, channels)) {
+        unexpected("Cannot load buffer, the data is corrupt.");
+        return false;
+      }
+
+      var registry = this.channelRegistry;
+      var channelIds = table.map(function (channel) {
+        return registry.register(channel.name, channel.color).id;
+      });
+
+      if (this.i > this.starts[this.h]) {
+        this.writeLine();
+      }
+      var channel = this.channel;
+      for (var y = 0; y < lines; y++) {
+        for (var p = starts[y]; p < starts[y + 1]; p++) {
+          this.writeCell(buffer[p], colors[p], styles[p]);
+        }
+        this.channel = channelIds[channels[y]];
+        this.writeLine();
+      }
+      this.channel = channel;
+      return true;
+    }
+
+    /**
+     * Column of the character at UTF-16 index |index| in the text of line |y|.
+     */
+    public getColumn(y: number, index: number): number {
+      var line = this.getLine(y);
+      var cells = line.cells;
+      var s = line.start;
+      var e = line.end;
+      var units = 0;
+      var p = s;
+      while (p < e && units < index) {
+        var c = cells[p++];
+        if (c !== CharacterCode.WideCharacterPadding) {
+          units += c > 0xFFFF ? 2 : 1;
+        }
+      }
+      while (p < e && cells[p] === CharacterCode.WideCharacterPadding) {
+        p ++;
+      }
+      return p - s;
+    }
+
+    /**
+     * Evicts the fewest oldest lines that free at least |n| characters, or all complete lines if
+     * they don't add up to |n|.
+     */
+    private evictBytes(n: number) {
+      var freed = this.getLineSize(0);
+      var count = 1;
+      while (count < this.h && freed < n) {
+        freed += this.getLineSize(count);
+        count ++;
+      }
+      this.evictLines(count);
+    }
+
+    /**
+     * Number of characters complete line |y| counts toward |maxBytes|, its cells or the numbers of
+     * its record.
+     */
+    private getLineSize(y: number): number {
+      var size = this.starts[y + 1] - this.starts[y];
+      var record = this.records ? this.records[y] : -1;
+      if (record >= 0) {
+        var template = this.templateRegistry.templates[this.recordData[record + RecordField.Template]];
+        size += RecordField.Arguments + template.argumentCount;
+      }
+      return size;
+    }
+
+    /**
+     * Drops the records of the |n| oldest lines and shifts the remaining ones, including the record
+     * of the line being completed, to the start of the record data.
+     */
+    private evictRecords(n: number) {
+      var records = this.records;
+      var offset = this.nextRecord >= 0 ? this.nextRecord : this.recordEnd;
+      for (var y = n; y < this.h; y++) {
+        if (records[y] >= 0) {
+          offset = records[y];
+          break;
+        }
+      }
+      this.recordData.set(this.recordData.subarray(offset, this.recordEnd), 0);
+      this.recordEnd -= offset;
+      for (y = n; y < this.h; y++) {
+        records[y - n] = records[y] >= 0 ? records[y] - offset : -1;
+      }
+      if (this.nextRecord >= 0) {
+        this.nextRecord -= offset;
+      }
+    }
+
+    /**
+     * Evicts the |n| oldest lines and shifts the remaining contents to the start of the buffer.
+     */
+    private evictLines(n: number) {
+      n = Math.min(n, this.h);
+      if (n === 0) {
+        return;
+      }
+      var starts = this.starts;
+      var offset = starts[n];
+      this.buffer.set(this.buffer.subarray(offset, this.i), 0);
+      this.colors.set(this.colors.subarray(offset, this.i), 0);
+      this.styles.set(this.styles.subarray(offset, this.i), 0);
+      this.channels.set(this.channels.subarray(n, this.h), 0);
+      if (this.times) {
+        this.times.set(this.times.subarray(n, this.h), 0);
+      }
+      if (this.records) {
+        this.evictRecords(n);
+      }
+      if (this.groups) {
+        this.groups.set(this.groups.subarray(n, this.h), 0);
+      }
+      var maxLineWidth = 0;
+      for (var k = 0; k <= this.h - n; k++) {
+        starts[k] = starts[k + n] - offset;
+        if (k > 0) {
+          maxLineWidth = Math.max(maxLineWidth, starts[k] - starts[k - 1]);
+        }
+      }
+      if (this.records) {
+        for (k = 0; k < this.h - n; k++) {
+          var record = this.records[k];
+          if (record >= 0) {
+            maxLineWidth = Math.max(maxLineWidth, this.recordData[record + RecordField.Length]);
+          }
+        }
+      }
+      this.previousMaxLineWidth = maxLineWidth;
+      this.measuredLines = Math.max(0, this.measuredLines - n);
+      this.i -= offset;
+      this.h -= n;
+      this.evicted += n;
+      this.version ++;
+    }
+  }
+
+  /**
+   * Whether the saved line starts are in order and within the |cells| saved cells, and the saved
+   * channel table lists a channel for each of the saved line |channels|.
+   */
+  function isSavedDataValid(starts: Uint32Array, cells: number, table: any, channels: Uint8Array): boolean {
+    if (!Array.isArray(table) || starts[0] !== 0 || starts[starts.length - 1] > cells) {
+      return false;
+    }
+    for (var y = 1; y < starts.length; y++) {
+      if (starts[y] < starts[y - 1]) {
+        return false;
+      }
+    }
+    for (var k = 0; k < table.length; k++) {
+      if (!table[k] || typeof table[k].name !== "string" || typeof table[k].color !== "number") {
+        return false;
+      }
+    }
+    for (y = 0; y < channels.length; y++) {
+      if (channels[y] >= table.length) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Time origin of |performance.now| on this thread, times are shared between threads relative to
+   * the epoch.
+   */
+  function getTimeOrigin(): number {
+    return performance.timeOrigin || 0;
+  }
+
+  function nextPowerOfTwo(n: number): number {
+    var p = 1;
+    while (p < n) {
+      p *= 2;
+    }
+    return p;
+  }
+
+  /**
+   * Words of the shared buffer control block. Counters increase monotonically and wrap around,
+   * ring positions are counters masked by the capacity.
+   */
+  enum SharedBufferField {
+    CellCapacity,
+    LineCapacity,
+
+    /**
+     * Number of cells and lines published by the writer.
+     */
+    I,
+    H,
+    Version,
+
+    /**
+     * Number of cells and lines consumed by the reader.
+     */
+    ReadI,
+    ReadH,
+
+    /**
+     * Number of lines the writer dropped because the ring was full.
+     */
+    Dropped,
+    Length
+  }
+
+  /**
+   * Ring of completed lines in a SharedArrayBuffer, written by a SharedBufferWriter, usually in a
+   * worker, and drained by a SharedBufferReader on the main thread. Create it on one side and post
+   * |memory| to the other.
+   */
+  export class SharedBuffer {
+    memory: SharedArrayBuffer;
+    control: Int32Array;
+
+    /**
+     * Time each line was completed, in milliseconds since the epoch.
+     */
+    lineTimes: Float64Array;
+    cells: Uint32Array;
+    styles: Uint32Array;
+    colors: Uint16Array;
+    lineLengths: Uint32Array;
+    lineChannels: Uint8Array;
+
+    /**
+     * Wraps |memory| created by |SharedBuffer.create|.
+     */
+    constructor(memory: SharedArrayBuffer) {
+      this.memory = memory;
+      var control = this.control = new Int32Array(memory, 0, SharedBufferField.Length);
+      var cellCapacity = control[SharedBufferField.CellCapacity];
+      var lineCapacity = control[SharedBufferField.LineCapacity];
+      var offset = SharedBufferField.Length * 4;
+      // The control block is a multiple of 8 bytes, so the times are aligned.
+      this.lineTimes = new Float64Array(memory, offset, lineCapacity);
+      offset += lineCapacity * 8;
+      this.cells = new Uint32Array(memory, offset, cellCapacity);
+      offset += cellCapacity * 4;
+      this.styles = new Uint32Array(memory, offset, cellCapacity);
+      offset += cellCapacity * 4;
+      this.lineLengths = new Uint32Array(memory, offset, lineCapacity);
+      offset += lineCapacity * 4;
+      this.colors = new Uint16Array(memory, offset, cellCapacity);
+      offset += cellCapacity * 2;
+      this.lineChannels = new Uint8Array(memory, offset, lineCapacity);
+    }
+
+    /**
+     * Allocates a ring of at least |cellCapacity| cells and |lineCapacity| lines, both rounded up
+     * to powers of two.
+     */
+    static create(cellCapacity: number = 1024 * 1024, lineCapacity: number = 64 * 1024): SharedBuffer {
+      if (typeof SharedArrayBuffer === "undefined") {
+        unexpected("SharedArrayBuffer is not available.");
+        return null;
+      }
+      cellCapacity = nextPowerOfTwo(cellCapacity);
+      lineCapacity = nextPowerOfTwo(lineCapacity);
+      var memory = new SharedArrayBuffer(SharedBufferField.Length * 4 + cellCapacity * 10 + lineCapacity * 13);
+      var control = new Int32Array(memory, 0, SharedBufferField.Length);
+      control[SharedBufferField.CellCapacity] = cellCapacity;
+      control[SharedBufferField.LineCapacity] = lineCapacity;
+      return new SharedBuffer(memory);
+    }
+  }
+
+  /**
+   * Buffer that publishes each completed line to a shared ring instead of keeping it, only the line
+   * being written is stored locally. Escape sequences, channels, colors and styles work as in
+   * Buffer.
+   * Channels must be registered in the same order as on the reading side so that ids agree.
+   */
+  export class SharedBufferWriter extends Buffer {
+    /**
+     * Milliseconds to wait for the reader to make room in a full ring before dropping a line.
+     * Waiting uses |Atomics.wait|, which browsers only allow in workers, leave it at 0 when writing
+     * on the main thread.
+     */
+    timeout: number;
+
+    /**
+     * Only the line being written is stored locally, so |options.maxBytes| defaults to a small
+     * capacity.
+     */
+    constructor(public shared: SharedBuffer, options: BufferOptions = {}) {
+      super({
+        maxBytes: options.maxBytes || 1024,
+        maxLines: options.maxLines,
+        channelRegistry: options.channelRegistry,
+        timestamps: options.timestamps,
+        templateRegistry: options.templateRegistry
+      });
+      this.timeout = 0;
+    }
+
+    public writeLine() {
+      super.writeLine();
+      this.publishLine(this.starts[1], this.channels[0]);
+      this.h = 0;
+      this.i = 0;
+    }
+
+    /**
+     * Records are formatted as they are written, indented for the open groups, the ring only
+     * carries cells.
+     */
+    public writeRecord(template: Template, a: number = 0, b: number = 0, c: number = 0, d: number = 0) {
+      if (this.templateRegistry.templates[template.id] !== template) {
+        unexpected("Cannot write a record of a template from another registry.");
+        return;
+      }
+      var values = [a, b, c, d];
+      if (this.i > this.starts[this.h]) {
+        this.writeLine();
+      }
+      this.writeIndentation();
+      for (var k = 0; k <= template.argumentCount; k++) {
+        var literal = template.literals[k];
+        for (var i = 0; i < literal.length; i++) {
+          this.writeCell(literal[i], this.color, this.style);
+        }
+        if (k < template.argumentCount) {
+          var text = template.formatArgument(k, values[k]);
+          for (i = 0; i < text.length; i++) {
+            this.writeCell(text.charCodeAt(i), this.color, this.style);
+          }
+        }
+      }
+      this.writeLine();
+    }
+
+    private publishLine(length: number, channel: number) {
+      var shared = this.shared;
+      var control = shared.control;
+      var cellCapacity = control[SharedBufferField.CellCapacity];
+      var lineCapacity = control[SharedBufferField.LineCapacity];
+      var i = control[SharedBufferField.I];
+      var h = control[SharedBufferField.H];
+      while (true) {
+        var readH = Atomics.load(control, SharedBufferField.ReadH);
+        var readI = Atomics.load(control, SharedBufferField.ReadI);
+        if (((i - readI) | 0) + length <= cellCapacity && ((h - readH) | 0) < lineCapacity) {
+          break;
+        }
+        if (length > cellCapacity || !this.timeout ||
+            Atomics.wait(control, SharedBufferField.ReadH, readH, this.timeout) === "timed-out") {
+          Atomics.add(control, SharedBufferField.Dropped, 1);
+          return;
+        }
+      }
+      // Copy the cells, wrapping around the end of the ring.
+      var p = i & (cellCapacity - 1);
+      var n = Math.min(length, cellCapacity - p);
+      shared.cells.set(this.buffer.subarray(0, n), p);
+      shared.colors.set(this.colors.subarray(0, n), p);
+      shared.styles.set(this.styles.subarray(0, n), p);
+      shared.cells.set(this.buffer.subarray(n, length), 0);
+      shared.colors.set(this.colors.subarray(n, length), 0);
+      shared.styles.set(this.styles.subarray(n, length), 0);
+      shared.lineLengths[h & (lineCapacity - 1)] = length;
+      shared.lineChannels[h & (lineCapacity - 1)] = channel;
+      shared.lineTimes[h & (lineCapacity - 1)] = getTimeOrigin() + performance.now();
+      // Publish the cells before the line that refers to them.
+      Atomics.store(control, SharedBufferField.I, (i + length) | 0);
+      Atomics.store(control, SharedBufferField.H, (h + 1) | 0);
+      Atomics.add(control, SharedBufferField.Version, 1);
+    }
+  }
+
+  /**
+   * Buffer that copies the lines published to a shared ring into its own storage once per frame,
+   * so views never read memory the writer is modifying. With timestamps, lines get the time the
+   * writer completed them rather than the time they are copied.
+   */
+  export class SharedBufferReader extends Buffer {
+    /**
+     * Shared version as of the last update.
+     */
+    private sharedVersion: number;
+    private boundUpdate: () => void;
+
+    constructor(public shared: SharedBuffer, options: BufferOptions = {}) {
+      super(options);
+      this.sharedVersion = -1;
+      this.boundUpdate = this.update.bind(this);
+      Scheduler.shared.add(this.boundUpdate, FramePhase.Input);
+    }
+
+    /**
+     * Stops copying lines from the shared ring.
+     */
+    public dispose() {
+      Scheduler.shared.remove(this.boundUpdate);
+    }
+
+    /**
+     * Number of lines the writer dropped because the ring was full.
+     */
+    get dropped(): number {
+      return Atomics.load(this.shared.control, SharedBufferField.Dropped);
+    }
+
+    /**
+     * Copies the lines published since the last update and frees their space in the ring.
+     */
+    public update() {
+      var shared = this.shared;
+      var control = shared.control;
+      var version = Atomics.load(control, SharedBufferField.Version);
+      if (version === this.sharedVersion) {
+        return;
+      }
+      this.sharedVersion = version;
+      var cellMask = control[SharedBufferField.CellCapacity] - 1;
+      var lineMask = control[SharedBufferField.LineCapacity] - 1;
+      var h = Atomics.load(control, SharedBufferField.H);
+      var readI = control[SharedBufferField.ReadI];
+      var readH = control[SharedBufferField.ReadH];
+      var channel = this.channel;
+      for (; readH !== h; readH = (readH + 1) | 0) {
+        var length = shared.lineLengths[readH & lineMask];
+        for (var k = 0; k < length; k++) {
+          var p = (readI + k) & cellMask;
+          this.writeCell(shared.cells[p], shared.colors[p], shared.styles[p]);
+        }
+        readI = (readI + length) | 0;
+        this.channel = shared.lineChannels[readH & lineMask];
+        this.nextLineTime = shared.lineTimes[readH & lineMask] - getTimeOrigin();
+        this.writeLine();
+      }
+      this.channel = channel;
+      Atomics.store(control, SharedBufferField.ReadI, readI);
+      Atomics.store(control, SharedBufferField.ReadH, readH);
+      Atomics.notify(control, SharedBufferField.ReadH);
+    }
+  }
+
+  /**
+   * A substring or regular expression matched against buffer lines. Substrings are matched against
+   * the buffer cells directly, regular expressions need each line decoded into a string.
+   */
+  export class Pattern {
+    /**
+     * Cells of the substring, laid out like buffer cells.
+     */
+    private cells: Uint32Array;
+    private regexp: RegExp;
+
+    constructor(query: string | RegExp, public caseSensitive: boolean = true) {
+      if (typeof query === "string") {
+        var cells = [];
+        for (var i = 0; i < query.length; i++) {
+          var c = query.charCodeAt(i);
+          if (isHighSurrogate(c) && i + 1 < query.length && isLowSurrogate(query.charCodeAt(i + 1))) {
+            c = decodeSurrogatePair(c, query.charCodeAt(++i));
+          }
+          cells.push(caseSensitive ? c : foldCase(c));
+          if (isWideCodePoint(c)) {
+            cells.push(CharacterCode.WideCharacterPadding);
+          }
+        }
+        this.cells = new Uint32Array(cells);
+      } else {
+        var regexp = <RegExp>query;
+        // Keep the flags of |query|, e.g. m, s and u, but always search globally from the start.
+        var source = String(regexp);
+        var flags = source.substring(source.lastIndexOf("/") + 1).replace(/[giy]/g, "");
+        this.caseSensitive = caseSensitive && !regexp.ignoreCase;
+        this.regexp = new RegExp(regexp.source, "g" + flags + (this.caseSensitive ? "" : "i"));
+      }
+    }
+
+    /**
+     * Calls |match| with the column and length of each non overlapping match in line |y|, and for
+     * regular expressions, with the result of |RegExp.exec|.
+     */
+    public forEachMatch(buffer: Buffer, y: number,
+                        match: (column: number, length: number, result: RegExpExecArray) => void) {
+      var line = buffer.getLine(y);
+      var s = line.start;
+      var e = line.end;
+      if (this.regexp) {
+        var regexp = this.regexp;
+        var text = buffer.getLineText(y);
+        // Text indices are columns unless the line has wide or astral characters.
+        var simple = text.length === e - s;
+        var result;
+        regexp.lastIndex = 0;
+        while ((result = regexp.exec(text))) {
+          var length = result[0].length;
+          if (length === 0) {
+            regexp.lastIndex ++;
+            continue;
+          }
+          if (simple) {
+            match(result.index, length, result);
+          } else {
+            var column = buffer.getColumn(y, result.index);
+            match(column, buffer.getColumn(y, result.index + length) - column, result);
+          }
+        }
+        return;
+      }
+      var m = this.cells.length;
+      if (m === 0) {
+        return;
+      }
+      var i = s;
+      while ((i = this.indexOf(line.cells, i, e)) >= 0) {
+        match(i - s, m, null);
+        i += m;
+      }
+    }
+
+    /**
+     * Whether line |y| contains a match.
+     */
+    public test(buffer: Buffer, y: number): boolean {
+      if (this.regexp) {
+        this.regexp.lastIndex = 0;
+        return this.regexp.test(buffer.getLineText(y));
+      }
+      var line = buffer.getLine(y);
+      return this.cells.length > 0 && this.indexOf(line.cells, line.start, line.end) >= 0;
+    }
+
+    /**
+     * Index of the first occurrence of the substring in |cells| between |s| and |e|, or -1.
+     */
+    private indexOf(cells: Uint32Array, s: number, e: number): number {
+      var pattern = this.cells;
+      var m = pattern.length;
+      var caseSensitive = this.caseSensitive;
+      for (var i = s; i <= e - m; i++) {
+        var k = 0;
+        while (k < m) {
+          var c = cells[i + k];
+          if ((caseSensitive ? c : foldCase(c)) !== pattern[k]) {
+            break;
+          }
+          k ++;
+        }
+        if (k === m) {
+          return i;
+        }
+      }
+      return -1;
+    }
+  }
+
+  /**
+   * Lower cases ASCII letters.
+   */
+  function foldCase(c: number): number {
+    return c >= 65 && c <= 90 ? c + 32 : c;
+  }
+
+  /**
+   * A link found in a buffer line. |line| is an absolute line number, |column| and |length| are
+   * in cells, and |match| holds the text and groups the detector's regular expression matched.
+   */
+  export class Link {
+    constructor(public detector: LinkDetector, public line: number, public column: number,
+                public length: number, public match: string[]) {
+      // ...
+    }
+
+    get text(): string {
+      return this.match[0];
+    }
+  }
+
+  /**
+   * Finds links in buffer lines with a regular expression, see |View.linkDetectors|.
+   */
+  export class LinkDetector {
+    /**
+     * http, https and file URLs, without trailing punctuation.
+     */
+    static url = new LinkDetector("url", /\b(?:https?|file):\/\/[^\s"'<>`]*[^\s"'<>`.,;:!?)\]}]/);
+
+    /**
+     * Source locations such as main.js:12 or src/main.js:12:5, the groups are the file, the line
+     * and the column, if any.
+     */
+    static sourceLocation = new LinkDetector("source", /((?:[A-Za-z]:)?[\w.\/\\@~+-]*\w\.\w+):(\d+)(?::(\d+))?/);
+
+    private pattern: Pattern;
+
+    constructor(public name: string, regexp: RegExp) {
+      this.pattern = new Pattern(regexp);
+    }
+
+    /**
+     * Calls |link| with the column, length and match of each link in line |y|.
+     */
+    public forEachLink(buffer: Buffer, y: number, link: (column: number, length: number, match: string[]) => void) {
+      this.pattern.forEachMatch(buffer, y, function (column: number, length: number, result: RegExpExecArray) {
+        link(column, length, Array.prototype.slice.call(result));
+      });
+    }
+  }
+
+  /**
+   * Calls |scan| with each complete line of |buffer| from absolute line |line| on, both as a buffer
+   * row and as an absolute line, until |budget| milliseconds have passed. Returns the absolute
+   * number of the next line to scan.
+   */
+  function scanLines(buffer: Buffer, line: number, budget: number,
+                     scan: (buffer: Buffer, y: number, line: number) => void): number {
+    var evicted = buffer.evicted;
+    var end = evicted + buffer.h;
+    var deadline = performance.now() + budget;
+    line = Math.max(line, evicted);
+    while (line < end) {
+      // Only check the clock every so often.
+      var chunkEnd = Math.min(end, line + 1024);
+      for (; line < chunkEnd; line++) {
+        scan(buffer, line - evicted, line);
+      }
+      if (performance.now() > deadline) {
+        break;
+      }
+    }
+    return line;
+  }
+
+  /**
+   * Finds all matches of a pattern in the complete lines of a buffer. Each update only searches
+   * the lines written since the previous one, and stops once its time budget runs out, see
+   * |scanLines|.
+   */
+  export class Search {
+    /**
+     * Matches as (line, column, length) triples ordered by position. Lines are absolute line
+     * numbers, i.e. they include the number of lines evicted from the buffer.
+     */
+    matches: Uint32Array;
+
+    /**
+     * Number of matches.
+     */
+    count: number;
+
+    /**
+     * Index of the current match, or -1 if there is none.
+     */
+    current: number;
+
+    pattern: Pattern;
+
+    /**
+     * Whether all lines in the buffer as of the last update have been searched.
+     */
+    complete: boolean;
+
+    /**
+     * Absolute number of the next line to search.
+     */
+    private line: number;
+
+    private boundAddMatch: (column: number, length: number) => void;
+    private boundSearchLine: (buffer: Buffer, y: number, line: number) => void;
+
+    constructor(query: string | RegExp, caseSensitive: boolean = true) {
+      this.pattern = new Pattern(query, caseSensitive);
+      this.matches = new Uint32Array(3 * 64);
+      this.count = 0;
+      this.current = -1;
+      this.complete = false;
+      this.line = 0;
+      this.boundAddMatch = this.addMatch.bind(this);
+      this.boundSearchLine = this.searchLine.bind(this);
+    }
+
+    /**
+     * Drops matches in evicted lines and searches lines written since the last update for at most
+     * |budget| milliseconds. Returns true if the matches changed.
+     */
+    public update(buffer: Buffer, budget: number = Infinity): boolean {
+      var matches = this.matches;
+      var evicted = buffer.evicted;
+      var dropped = 0;
+      while (dropped < this.count && matches[dropped * 3] < evicted) {
+        dropped ++;
+      }
+      if (dropped) {
+        matches.set(matches.subarray(dropped * 3, this.count * 3), 0);
+        this.count -= dropped;
+        this.current = this.current < dropped ? -1 : this.current - dropped;
+      }
+      var count = this.count;
+      this.line = scanLines(buffer, this.line, budget, this.boundSearchLine);
+      this.complete = this.line === evicted + buffer.h;
+      return dropped > 0 || count !== this.count;
+    }
+
+    private searchLine(buffer: Buffer, y: number, line: number) {
+      this.line = line;
+      this.pattern.forEachMatch(buffer, y, this.boundAddMatch);
+    }
+
+    /**
+     * Index of the first match on or after absolute line |line|.
+     */
+    public indexOf(line: number): number {
+      var lo = 0;
+      var hi = this.count;
+      while (lo < hi) {
+        var mid = (lo + hi) >> 1;
+        if (this.matches[mid * 3] < line) {
+          lo = mid + 1;
+        } else {
+          hi = mid;
+        }
+      }
+      return lo;
+    }
+
+    /**
+     * Adds a match in the line being searched.
+     */
+    private addMatch(column: number, length: number) {
+      if (this.matches.length === this.count * 3) {
+        var matches = new Uint32Array(this.matches.length * 2);
+        matches.set(this.matches, 0);
+        this.matches = matches;
+      }
+      var i = this.count * 3;
+      this.matches[i] = this.line;
+      this.matches[i + 1] = column;
+      this.matches[i + 2] = length;
+      this.count ++;
+    }
+  }
+
+  /**
+   * Sorted absolute numbers of the complete buffer lines that satisfy a predicate. The index is
+   * built incrementally and each update stops scanning once its time budget runs out, so indexing
+   * a large buffer is spread over many frames instead of blocking one.
+   */
+  export class LineIndex {
+    lines: Uint32Array;
+
+    /**
+     * Number of indexed lines.
+     */
+    count: number;
+
+    /**
+     * Whether all lines in the buffer as of the last update have been scanned.
+     */
+    complete: boolean;
+
+    /**
+     * Absolute number of the next line to scan.
+     */
+    line: number;
+
+    private boundScanLine: (buffer: Buffer, y: number, line: number) => void;
+
+    constructor(public predicate: (buffer: Buffer, y: number) => boolean) {
+      this.lines = new Uint32Array(1024);
+      this.count = 0;
+      this.complete = false;
+      this.line = 0;
+      this.boundScanLine = this.scanLine.bind(this);
+    }
+
+    /**
+     * Drops evicted lines and scans new lines for at most |budget| milliseconds. Returns the number
+     * of dropped lines.
+     */
+    public update(buffer: Buffer, budget: number = Infinity): number {
+      var lines = this.lines;
+      var evicted = buffer.evicted;
+      var dropped = this.indexOf(evicted);
+      if (dropped) {
+        lines.set(lines.subarray(dropped, this.count), 0);
+        this.count -= dropped;
+      }
+      this.line = scanLines(buffer, this.line, budget, this.boundScanLine);
+      this.complete = this.line === evicted + buffer.h;
+      return dropped;
+    }
+
+    private scanLine(buffer: Buffer, y: number, line: number) {
+      if (this.predicate(buffer, y)) {
+        this.add(line);
+      }
+    }
+
+    /**
+     * Index of the first indexed line on or after absolute line |line|.
+     */
+    public indexOf(line: number): number {
+      var lo = 0;
+      var hi = this.count;
+      while (lo < hi) {
+        var mid = (lo + hi) >> 1;
+        if (this.lines[mid] < line) {
+          lo = mid + 1;
+        } else {
+          hi = mid;
+        }
+      }
+      return lo;
+    }
+
+    public contains(line: number): boolean {
+      var k = this.indexOf(line);
+      return k < this.count && this.lines[k] === line;
+    }
+
+    private add(line: number) {
+      if (this.lines.length === this.count) {
+        var lines = new Uint32Array(this.lines.length * 2);
+        lines.set(this.lines, 0);
+        this.lines = lines;
+      }
+      this.lines[this.count ++] = line;
+    }
+  }
+
+  /**
+   * Font cells are drawn with. |size| and |linePadding|, the space added to the size to get the row
+   * height, are in CSS pixels.
+   */
+  export interface FontOptions {
+    family?: string;
+    size?: number;
+    linePadding?: number;
+  }
+
+  var defaultFontFamily = "Input Mono Condensed, Consolas, Courier, monospace";
+
+  /**
+   * Counters of the work done to draw, accumulated until |reset|.
+   */
+  export class RenderStats {
+    /**
+     * Bytes uploaded to the GPU, always 0 for renderers that don't upload.
+     */
+    public bytesUploaded: number = 0;
+    public framesRendered: number = 0;
+
+    /**
+     * Screen rows a |View| painted, rows it could reuse from the previous render aren't counted.
+     */
+    public rowsPainted: number = 0;
+
+    public reset() {
+      this.bytesUploaded = 0;
+      this.framesRendered = 0;
+      this.rowsPainted = 0;
+    }
+  }
+
+  /**
+   * What a View draws into, a grid of |w| by |h| cells. |Screen| draws them with WebGL,
+   * |CanvasScreen| with Canvas2D and |GridScreen| only keeps them in memory. |createScreen| picks
+   * the best one the browser supports.
+   */
+  export interface Renderer {
+    w: number;
+    h: number;
+
+    /**
+     * Incremented whenever the contents are discarded, e.g. on resize or font changes, so that
+     * whatever draws into the renderer knows to draw again.
+     */
+    generation: number;
+
+    /**
+     * Canvas that receives input, or null if there is none.
+     */
+    canvas: HTMLCanvasElement;
+    theme: Theme;
+
+    /**
+     * Whether keyboard input on the canvas is meant for this renderer, false for panes other than
+     * the active one when several share a canvas.
+     */
+    active?: boolean;
+    setTheme(theme: Theme): void;
+    clear(): void;
+    clearRect(x: number, y: number, w: number, h: number): void;
+    invalidate(): void;
+    putChar(c: number, x: number, y: number, color: number, style?: number): void;
+    fillColor(x: number, y: number, n: number, color: number): void;
+
+    /**
+     * Adds |Attribute| bits |attributes| to the style of |n| cells starting at |x|, |y|, keeping
+     * their colors.
+     */
+    addAttributes(x: number, y: number, n: number, attributes: number): void;
+
+    /**
+     * Moves the cells of the |w| by |h| rectangle at |x|, |y| up by |n| rows, or down if |n| is
+     * negative, clearing the rows they leave.
+     */
+    scrollRect(x: number, y: number, w: number, h: number, n: number): void;
+    writeBufferLine(buffer: Buffer, y: number, x: number, row: number, left?: number,
+                    width?: number): void;
+    cellFromPoint(x: number, y: number): Cursor;
+
+    /**
+     * Current font and a way to change it, missing on renderers without one.
+     */
+    getFont?(): FontOptions;
+    setFont?(font: FontOptions): void;
+
+    /**
+     * Work done so far, missing on renderers that don't count it.
+     */
+    stats?: RenderStats;
+  }
+
+  export class Screen implements Renderer {
+
+    static vertexShader =
+      "uniform mat4 uTransformMatrix3D;                         " +
+
+      "attribute vec4 aPosition;                                " +
+      "attribute vec2 aCoordinate;                              " +
+
+      "varying vec2 vCoordinate;                                " +
+      "varying vec2 vCoordinate2;                               " +
+
+      "void main() {                                            " +
+      "  gl_Position = uTransformMatrix3D * aPosition;          " +
+      "  vCoordinate = aCoordinate;                             " +
+      "  vCoordinate2 = aCoordinate;                            " +
+      "}";
+
+    /**
+     * Each cell has a tile map texel, glyph x, glyph y and a 16 bit foreground color, and a style
+     * map texel, a 16 bit background color and the |Attribute| bits. Colors are RGB565 colors
+     * looked up in the color palette, or indices into the theme's indexed palette. Bold glyphs are
+     * drawn twice, one pixel apart.
+     */
+    static fragmentShader =
+      "precision mediump float;                                 " +
+      "uniform sampler2D uTileSampler;                          " +
+      "uniform sampler2D uTileMapSampler;                       " +
+      "uniform sampler2D uStyleMapSampler;                      " +
+      "uniform sampler2D uColorPaletteSampler;                  " +
+      "uniform sampler2D uIndexedPaletteSampler;                " +
+
+      "varying vec2 vCoordinate;                                " +
+      "varying vec2 vCoordinate2;                               " +
+
+      "uniform float uTime;                                     " +
+      "uniform vec2 uTileSize;                                  " +
+      "uniform vec2 uScaledTileSize;                            " +
+      "uniform vec2 uTexelSize;                                 " +
+      "uniform vec4 uBackgroundColor;                           " +
+
+      "bool hasAttribute(float attributes, float attribute) {   " +
+      "  return mod(floor(attributes / attribute), 2.0) == 1.0; " +
+      "}                                                        " +
+
+      "vec4 cellColor(vec2 color, bool indexed) {               " +
+      "  if (!indexed) {                                        " +
+      "    return texture2D(uColorPaletteSampler, color);       " +
+      "  }                                                      " +
+      "  float index = floor(color.x * 255.0 + 0.5) + floor(color.y * 255.0 + 0.5) * 256.0;" +
+      "  return texture2D(uIndexedPaletteSampler, vec2((index + 0.5) / 512.0, 0.5));" +
+      "}                                                        " +
+
+      "void main() {                                            " +
+      "  float time = uTime;                                    " +
+      "  vec4 tile = texture2D(uTileMapSampler, vCoordinate);   " +
+      "  vec4 style = texture2D(uStyleMapSampler, vCoordinate); " +
+      "  float attributes = floor(style.z * 255.0 + 0.5);       " +
+      "  vec2 cellCoordinate = mod(vCoordinate, uScaledTileSize) / uScaledTileSize;" +
+      "  vec2 tileOffset = floor(tile.xy * 256.0) * uTileSize;  " +
+      "  vec2 tileCoordinate = tileOffset + cellCoordinate * uTileSize;" +
+      "  float glyph = 0.0;                                     " +
+      "  if (tile.x != 0.0 || tile.y != 0.0) {                  " +
+      "    glyph = texture2D(uTileSampler, tileCoordinate).a;   " +
+      "    if (hasAttribute(attributes, 1.0)) {                 " +
+      "      vec2 shifted = vec2(max(tileCoordinate.x - uTexelSize.x, tileOffset.x), tileCoordinate.y);" +
+      "      glyph = max(glyph, texture2D(uTileSampler, shifted).a);" +
+      "    }                                                    " +
+      "  }                                                      " +
+      "  if (hasAttribute(attributes, 4.0) && cellCoordinate.y >= 1.0 - uTexelSize.y / uTileSize.y) {" +
+      "    glyph = 1.0;                                         " +
+      "  }                                                      " +
+      "  vec4 foreground = cellColor(tile.zw, hasAttribute(attributes, 32.0));" +
+      "  vec4 background = uBackgroundColor;                    " +
+      "  float backgroundAlpha = 0.0;                           " +
+      "  if (hasAttribute(attributes, 16.0)) {                  " +
+      "    background = cellColor(style.xy, hasAttribute(attributes, 64.0));" +
+      "    backgroundAlpha = 1.0;                               " +
+      "  }                                                      " +
+      "  if (hasAttribute(attributes, 8.0)) {                   " +
+      "    vec4 t = foreground;                                 " +
+      "    foreground = background;                             " +
+      "    background = t;                                      " +
+      "    backgroundAlpha = 1.0;                               " +
+      "  }                                                      " +
+      "  if (hasAttribute(attributes, 2.0)) {                   " +
+      "    foreground.rgb *= 0.5;                               " +
+      "  }                                                      " +
+      "  if (glyph == 0.0 && backgroundAlpha == 0.0) { discard; }" +
+      "  float alpha = glyph + backgroundAlpha * (1.0 - glyph); " +
+      "  gl_FragColor = vec4(foreground.rgb * glyph + background.rgb * backgroundAlpha * (1.0 - glyph), alpha);" +
+      "}";
+
+    private gl: WebGLRenderingContext;
+    public canvas: HTMLCanvasElement;
+    public fontFamily: string = defaultFontFamily;
+    public linePadding: number = 4;
+    public generation: number = 0;
+    private ratio: number;
+    private program;
+    private maxTextureSize: number;
+
+    /**
+     * Set while the WebGL context is lost. Screen contents keep being updated in memory and are
+     * uploaded again, along with everything else, once the context is restored.
+     */
+    private contextLost: boolean;
+
+    private boundPaint: () => void;
+    private boundOnContextLost: (event: Event) => void;
+    private boundOnContextRestored: () => void;
+    private stopObservingContainer: () => void;
+
+    private spriteCanvas: HTMLCanvasElement;
+    private spriteContext: CanvasRenderingContext2D;
+    private spriteSheetDirty: boolean;
+
+    private tileW: number;
+    private tileH: number;
+    private tileColumns: number;
+
+    /**
+     * Glyph atlas. Glyphs are rasterized into slots of the sprite sheet the first time they are
+     * used, wide glyphs take two adjacent slots. The sprite sheet grows as needed, once it can't
+     * grow any further glyphs that aren't on screen are evicted. Slot 0 stays empty, the fragment
+     * shader discards cells that refer to it.
+     */
+    private glyphSlots: { [codePoint: number]: number };
+
+    /**
+     * Code point in each slot, or -1 for the right half of a wide glyph.
+     */
+    private slotCodePoints: Int32Array;
+    private nextSlot: number;
+    private maxSlots: number;
+
+    /**
+     * Number of columns.
+     */
+    public w: number;
+
+    /**
+     * Number of rows.
+     */
+    public h: number;
+
+    private tileTexture;
     private tileMapTexture;
+    private styleMapTexture;
     private colorPaletteTexture;
+    private indexedPaletteTexture;
     private screenBuffer: Uint8Array;
     private screenBufferView: Uint32Array;
 
-    private vertexBuffer;
-    private dirty: boolean;
+    /**
+     * Style of each cell, uploaded to the style map texture.
+     */
+    private styleBuffer: Uint8Array;
+    private styleBufferView: Uint32Array;
+
+    private vertexBuffer;
+    private dirty: boolean;
+
+    /**
+     * Rows whose tile or style map cells changed since they were last uploaded.
+     */
+    private dirtyRows: Uint8Array;
+    public stats: RenderStats = new RenderStats();
+
+    public cursor: Cursor;
+    public color: number;
+    public style: number = 0;
+
+    /**
+     * Colors of the background and of cells with indexed colors, see |setTheme|.
+     */
+    public theme: Theme;
+    public wrap: boolean = false;
+
+    private static supported: boolean;
+
+    /**
+     * Whether the browser supports WebGL, checked once.
+     */
+    static isSupported(): boolean {
+      if (Screen.supported === undefined) {
+        var canvas = document.createElement("canvas");
+        try {
+          Screen.supported = !!canvas.getContext("webgl");
+        } catch (e) {
+          Screen.supported = false;
+        }
+      }
+      return Screen.supported;
+    }
+
+    constructor(public container: HTMLDivElement, public fontSize: number = 12) {
+      this.canvas = document.createElement("canvas");
+      this.canvas.tabIndex = 0;
+      this.canvas.style.outline = "none";
+      container.appendChild(this.canvas);
+      var gl = this.gl = this.canvas.getContext("webgl", { alpha: false });
+
+      gl.clearColor(0.0, 0.0, 0.0, 1);
+      gl.clear(gl.COLOR_BUFFER_BIT);
+
+      this.cursor = new Cursor(0, 0);
+      this.color = 0xFFFF;
+      this.contextLost = false;
+      this.initialize();
+      this.initializeColorPaletteTexture();
+      this.setTheme(Theme.dark);
+
+      this.boundOnContextLost = this.onContextLost.bind(this);
+      this.boundOnContextRestored = this.onContextRestored.bind(this);
+      this.canvas.addEventListener("webglcontextlost", this.boundOnContextLost, false);
+      this.canvas.addEventListener("webglcontextrestored", this.boundOnContextRestored, false);
+      this.onContainerSizeChanged();
+      this.stopObservingContainer = observeElementSize(container, this.onContainerSizeChanged.bind(this));
+      this.boundPaint = this.paint.bind(this);
+      Scheduler.shared.add(this.boundPaint, FramePhase.Paint);
+    }
+
+    /**
+     * Stops drawing and observing the container, frees the GL resources and removes the canvas.
+     */
+    public dispose() {
+      var gl = this.gl;
+      Scheduler.shared.remove(this.boundPaint);
+      this.stopObservingContainer();
+      this.canvas.removeEventListener("webglcontextlost", this.boundOnContextLost, false);
+      this.canvas.removeEventListener("webglcontextrestored", this.boundOnContextRestored, false);
+      if (!this.contextLost) {
+        gl.deleteTexture(this.tileTexture);
+        gl.deleteTexture(this.tileMapTexture);
+        gl.deleteTexture(this.styleMapTexture);
+        gl.deleteTexture(this.colorPaletteTexture);
+        gl.deleteTexture(this.indexedPaletteTexture);
+        gl.deleteBuffer(this.vertexBuffer);
+        gl.deleteProgram(this.program);
+      }
+      // Browsers only keep a few contexts alive, release this one now rather than when it's
+      // garbage collected.
+      var loseContext = gl.getExtension("WEBGL_lose_context");
+      if (loseContext) {
+        loseContext.loseContext();
+      }
+      if (this.canvas.parentNode) {
+        this.canvas.parentNode.removeChild(this.canvas);
+      }
+    }
+
+    private onContextLost(event: Event) {
+      // Allows the context to be restored.
+      event.preventDefault();
+      this.contextLost = true;
+    }
+
+    /**
+     * Recreates the program, textures and vertex buffer and uploads the sprite sheet, palettes and
+     * screen contents again.
+     */
+    private onContextRestored() {
+      this.contextLost = false;
+      this.initialize();
+      this.initializeColorPaletteTexture();
+      this.setTheme(this.theme);
+      this.initializeTileTexture();
+      this.initializeScreenTextures();
+    }
+
+    private initialize() {
+      var gl = this.gl;
+      this.maxTextureSize = gl.getParameter(gl.MAX_TEXTURE_SIZE);
+      this.program = createProgramFromSource(gl, Screen.vertexShader, Screen.fragmentShader);
+      gl.useProgram(this.program);
+      this.vertexBuffer = gl.createBuffer();
+      this.tileTexture = gl.createTexture();
+      this.tileMapTexture = gl.createTexture();
+      this.styleMapTexture = gl.createTexture();
+      this.colorPaletteTexture = gl.createTexture();
+      this.indexedPaletteTexture = gl.createTexture();
+      this.invalidate();
+    }
+
+    private initializeColorPaletteTexture() {
+      var gl = this.gl;
+      gl.bindTexture(gl.TEXTURE_2D, this.colorPaletteTexture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      var colorPalette = new Uint8Array(256 * 256 * 4);
+      var j = 0;
+      for (var i = 0; i < 256 * 256; i++) {
+        var r = (i >> 11) & 0x1F;
+        var g = (i >>  5) & 0x3F;
+        var b = (i >>  0) & 0x1F;
+        colorPalette[j++] = (r / 32) * 256;
+        colorPalette[j++] = (g / 64) * 256;
+        colorPalette[j++] = (b / 32) * 256;
+        colorPalette[j++] = 255;
+      }
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, 256, 256, 0, gl.RGBA, gl.UNSIGNED_BYTE, colorPalette);
+    }
+
+    /**
+     * Switches to |theme|, only the indexed palette is uploaded again, screen and buffer contents
+     * stay the same.
+     */
+    public setTheme(theme: Theme) {
+      var gl = this.gl;
+      this.theme = theme;
+      var palette = new Uint8Array(512 * 4);
+      for (var i = 0; i < PaletteIndex.Length; i++) {
+        var color = theme.colors[i];
+        palette[i * 4] = color >> 16;
+        palette[i * 4 + 1] = color >> 8;
+        palette[i * 4 + 2] = color;
+        palette[i * 4 + 3] = 255;
+      }
+      gl.bindTexture(gl.TEXTURE_2D, this.indexedPaletteTexture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, 512, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, palette);
+      this.invalidate();
+    }
+
+    private onContainerSizeChanged() {
+      var cw = this.containerWidth;
+      var ch = this.containerHeight;
+      var devicePixelRatio = window.devicePixelRatio || 1;
+      var backingStoreRatio = 1;
+      if (devicePixelRatio !== backingStoreRatio) {
+        this.ratio = devicePixelRatio / backingStoreRatio;
+        this.canvas.width = cw * this.ratio;
+        this.canvas.height = ch * this.ratio;
+        this.canvas.style.width = cw + 'px';
+        this.canvas.style.height = ch + 'px';
+      } else {
+        this.ratio = 1;
+        this.canvas.width = cw;
+        this.canvas.height = ch;
+      }
+      this.resize();
+    }
+
+    private get containerWidth(): number {
+      return this.container.clientWidth;
+    }
+
+    private get containerHeight(): number {
+      return this.container.clientHeight;
+    }
+
+    /**
+     * Changes the font, which rebuilds the sprite sheet and recomputes the number of rows and
+     * columns.
+     */
+    public setFont(font: FontOptions) {
+      this.fontFamily = font.family !== undefined ? font.family : this.fontFamily;
+      this.fontSize = font.size !== undefined ? font.size : this.fontSize;
+      this.linePadding = font.linePadding !== undefined ? font.linePadding : this.linePadding;
+      this.resize();
+    }
+
+    public getFont(): FontOptions {
+      return { family: this.fontFamily, size: this.fontSize, linePadding: this.linePadding };
+    }
+
+    private resize() {
+      this.initializeSpriteSheet();
+      this.generation++;
+
+      var screenW = this.w = this.canvas.width / this.tileW | 0;
+      var screenH = this.h = this.canvas.height / this.tileH | 0;
+
+      this.screenBuffer = new Uint8Array(screenW * screenH * 4);
+      this.screenBufferView = new Uint32Array(this.screenBuffer.buffer);
+      this.styleBuffer = new Uint8Array(screenW * screenH * 4);
+      this.styleBufferView = new Uint32Array(this.styleBuffer.buffer);
+      this.dirtyRows = new Uint8Array(screenH);
+      this.initializeScreenTextures();
+
+      this.cursor.x = this.cursor.y = 0;
+    }
+
+    /**
+     * Uploads the tile and style maps and sets up the quad they are drawn on.
+     */
+    private initializeScreenTextures() {
+      var gl = this.gl;
+      var program = this.program;
+      var screenW = this.w;
+      var screenH = this.h;
+
+      gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+
+      gl.bindTexture(gl.TEXTURE_2D, this.tileMapTexture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, screenW, screenH, 0, gl.RGBA, gl.UNSIGNED_BYTE, this.screenBuffer);
+
+      gl.bindTexture(gl.TEXTURE_2D, this.styleMapTexture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, screenW, screenH, 0, gl.RGBA, gl.UNSIGNED_BYTE, this.styleBuffer);
+      this.stats.bytesUploaded += this.screenBuffer.length + this.styleBuffer.length;
+      for (var y = 0; y < screenH; y++) {
+        this.dirtyRows[y] = 0;
+      }
+
+      var matrix = create2DProjection(this.canvas.width, this.canvas.height, 2000);
+      gl.uniformMatrix4fv(this.program.uniforms.uTransformMatrix3D.location, false, matrix);
+
+      var w = this.canvas.width;
+      var h = this.canvas.height;
+
+      var f32 = new Float32Array([
+        // x, y, u, v
+        0, 0, 0, 0,
+        w, 0, 1, 0,
+        w, h, 1, 1,
+
+        0, 0, 0, 0,
+        w, h, 1, 1,
+        0, h, 0, 1
+      ]);
+
+      gl.bindBuffer(gl.ARRAY_BUFFER, this.vertexBuffer);
+      gl.bufferData(gl.ARRAY_BUFFER, f32, gl.DYNAMIC_DRAW);
+      gl.enableVertexAttribArray(program.attributes.aPosition.location);
+      gl.enableVertexAttribArray(program.attributes.aCoordinate.location);
+
+      gl.vertexAttribPointer(program.attributes.aPosition.location, 2, gl.FLOAT, false, 16, 0);
+      gl.vertexAttribPointer(program.attributes.aCoordinate.location, 2, gl.FLOAT, false, 16, 8);
+
+      gl.uniform2f(program.uniforms.uScaledTileSize.location, 1 / screenW, 1 / screenH);
+      this.invalidate();
+    }
+
+    private initializeSpriteSheet() {
+      var fontSize = this.fontSize * this.ratio;
+      var maxTextureSize = this.maxTextureSize;
+      this.spriteCanvas = document.createElement("canvas");
+      this.spriteCanvas.width = Math.min(1024, maxTextureSize);
+      this.spriteCanvas.height = 256;
+      var context = this.spriteContext = this.spriteCanvas.getContext("2d");
+      this.initializeSpriteContext();
+      context.clearRect(0, 0, this.spriteCanvas.width, this.spriteCanvas.height);
+
+      var metrics = context.measureText("A");
+      var tileW = this.tileW = Math.ceil(metrics.width);
+      var hPadding = this.linePadding * this.ratio;
+      var tileH = this.tileH = fontSize + hPadding;
+      // Tile map cells address slots with one byte per coordinate.
+      var tileColumns = this.tileColumns = Math.min(256, this.spriteCanvas.width / tileW | 0);
+      this.maxSlots = tileColumns * Math.min(256, maxTextureSize / tileH | 0);
+      this.glyphSlots = Object.create(null);
+      this.slotCodePoints = new Int32Array(this.maxSlots);
+      this.nextSlot = 1;
+      this.initializeTileTexture();
+      // this.container.appendChild(this.spriteCanvas);
+    }
+
+    private initializeTileTexture() {
+      var gl = this.gl;
+      gl.bindTexture(gl.TEXTURE_2D, this.tileTexture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      this.uploadSpriteSheet();
+    }
+
+    private initializeSpriteContext() {
+      var context = this.spriteContext;
+      context.fillStyle = "white";
+      context.font = (this.fontSize * this.ratio) + 'px ' + this.fontFamily;
+      context.textBaseline = "bottom";
+    }
+
+    private uploadSpriteSheet() {
+      var gl = this.gl;
+      gl.bindTexture(gl.TEXTURE_2D, this.tileTexture);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, this.spriteCanvas);
+      gl.uniform2f(this.program.uniforms.uTileSize.location, this.tileW / this.spriteCanvas.width, this.tileH / this.spriteCanvas.height);
+      gl.uniform2f(this.program.uniforms.uTexelSize.location, 1 / this.spriteCanvas.width, 1 / this.spriteCanvas.height);
+      this.spriteSheetDirty = false;
+    }
+
+    /**
+     * Slot of the glyph for code point |c|, rasterizing it if needed.
+     */
+    private getGlyphSlot(c: number): number {
+      var slot = this.glyphSlots[c];
+      if (slot !== undefined) {
+        return slot;
+      }
+      var wide = isWideCodePoint(c);
+      slot = this.allocateSlots(wide ? 2 : 1);
+      if (slot < 0) {
+        this.evictGlyphs();
+        slot = this.allocateSlots(wide ? 2 : 1);
+        if (slot < 0) {
+          unexpected("Glyph atlas is full.");
+          return 0;
+        }
+      }
+      this.addGlyph(c, slot, wide);
+      return slot;
+    }
+
+    private addGlyph(c: number, slot: number, wide: boolean) {
+      var tileW = this.tileW;
+      var tileH = this.tileH;
+      var x = (slot % this.tileColumns) * tileW;
+      var y = ((slot / this.tileColumns) | 0) * tileH;
+      var width = wide ? tileW * 2 : tileW;
+      var context = this.spriteContext;
+      context.save();
+      context.beginPath();
+      context.rect(x, y, width, tileH);
+      context.clip();
+      context.clearRect(x, y, width, tileH);
+      context.fillText(codePointToString(c), x, y + tileH);
+      context.restore();
+      this.glyphSlots[c] = slot;
+      this.slotCodePoints[slot] = c;
+      if (wide) {
+        this.slotCodePoints[slot + 1] = -1;
+      }
+      this.spriteSheetDirty = true;
+    }
+
+    /**
+     * Allocates |n| adjacent slots in the same row, growing the sprite sheet if needed. Returns -1
+     * if the atlas is full.
+     */
+    private allocateSlots(n: number): number {
+      var columns = this.tileColumns;
+      var slot = this.nextSlot;
+      if (n > 1 && (slot % columns) + n > columns) {
+        slot += columns - slot % columns;
+      }
+      if (slot + n > this.maxSlots) {
+        return -1;
+      }
+      var rows = ((slot + n - 1) / columns | 0) + 1;
+      while (rows * this.tileH > this.spriteCanvas.height) {
+        this.growSpriteSheet();
+      }
+      this.nextSlot = slot + n;
+      return slot;
+    }
+
+    private growSpriteSheet() {
+      var maxTextureSize = this.maxTextureSize;
+      var canvas = document.createElement("canvas");
+      canvas.width = this.spriteCanvas.width;
+      canvas.height = Math.min(this.spriteCanvas.height * 2, maxTextureSize);
+      var context = canvas.getContext("2d");
+      context.drawImage(this.spriteCanvas, 0, 0);
+      this.spriteCanvas = canvas;
+      this.spriteContext = context;
+      this.initializeSpriteContext();
+      this.spriteSheetDirty = true;
+    }
+
+    /**
+     * Evicts all glyphs that aren't on screen, compacts the remaining ones to the start of the
+     * sprite sheet and updates the cells that refer to them.
+     */
+    private evictGlyphs() {
+      var columns = this.tileColumns;
+      var buffer = this.screenBuffer;
+      var used = new Uint8Array(this.maxSlots);
+      for (var i = 0; i < buffer.length; i += 4) {
+        used[buffer[i] + buffer[i + 1] * columns] = 1;
+      }
+      var codePoints = new Int32Array(this.slotCodePoints);
+      var end = this.nextSlot;
+      var remap = new Int32Array(this.maxSlots);
+      this.glyphSlots = Object.create(null);
+      this.nextSlot = 1;
+      this.spriteContext.clearRect(0, 0, this.spriteCanvas.width, this.spriteCanvas.height);
+      for (var slot = 1; slot < end; slot++) {
+        var c = codePoints[slot];
+        if (c < 0) {
+          continue;
+        }
+        var wide = isWideCodePoint(c);
+        if (used[slot] || (wide && used[slot + 1])) {
+          var newSlot = this.allocateSlots(wide ? 2 : 1);
+          this.addGlyph(c, newSlot, wide);
+          remap[slot] = newSlot;
+          if (wide) {
+            remap[slot + 1] = newSlot + 1;
+          }
+        }
+      }
+      for (var i = 0; i < buffer.length; i += 4) {
+        var slot = remap[buffer[i] + buffer[i + 1] * columns];
+        buffer[i] = slot % columns;
+        buffer[i + 1] = slot / columns | 0;
+      }
+      this.markRowsDirty(0, this.h);
+    }
+
+    private markRowsDirty(y: number, e: number) {
+      for (y = Math.max(0, y), e = Math.min(this.h, e); y < e; y++) {
+        this.dirtyRows[y] = 1;
+      }
+    }
+
+    /**
+     * Uploads the rows that changed since the last upload, one |texSubImage2D| per texture for each
+     * run of adjacent changed rows.
+     */
+    private uploadScreenTexture() {
+      var gl = this.gl;
+      var rows = this.dirtyRows;
+      var rowSize = this.w * 4;
+      var y = 0;
+      while (y < this.h) {
+        if (!rows[y]) {
+          y++;
+          continue;
+        }
+        var top = y;
+        while (y < this.h && rows[y]) {
+          rows[y++] = 0;
+        }
+        var s = top * rowSize;
+        var e = y * rowSize;
+        gl.bindTexture(gl.TEXTURE_2D, this.tileMapTexture);
+        gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, top, this.w, y - top, gl.RGBA, gl.UNSIGNED_BYTE, this.screenBuffer.subarray(s, e));
+        gl.bindTexture(gl.TEXTURE_2D, this.styleMapTexture);
+        gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, top, this.w, y - top, gl.RGBA, gl.UNSIGNED_BYTE, this.styleBuffer.subarray(s, e));
+        this.stats.bytesUploaded += (e - s) * 2;
+      }
+    }
+
+    private render() {
+      var gl = this.gl;
+      var program = this.program;
+
+      gl.activeTexture(gl.TEXTURE0);
+      gl.bindTexture(gl.TEXTURE_2D, this.tileTexture);
+      gl.uniform1i(program.uniforms.uTileSampler.location, 0);
+
+      gl.activeTexture(gl.TEXTURE0 + 1);
+      gl.bindTexture(gl.TEXTURE_2D, this.tileMapTexture);
+      gl.uniform1i(program.uniforms.uTileMapSampler.location, 1);
+
+      if (program.uniforms.uColorPaletteSampler) {
+        gl.activeTexture(gl.TEXTURE0 + 2);
+        gl.bindTexture(gl.TEXTURE_2D, this.colorPaletteTexture);
+        gl.uniform1i(program.uniforms.uColorPaletteSampler.location, 2);
+      }
+
+      gl.activeTexture(gl.TEXTURE0 + 3);
+      gl.bindTexture(gl.TEXTURE_2D, this.styleMapTexture);
+      gl.uniform1i(program.uniforms.uStyleMapSampler.location, 3);
+
+      gl.activeTexture(gl.TEXTURE0 + 4);
+      gl.bindTexture(gl.TEXTURE_2D, this.indexedPaletteTexture);
+      gl.uniform1i(program.uniforms.uIndexedPaletteSampler.location, 4);
+
+      gl.uniform1f(program.uniforms.uTime.location, performance.now() / 1000);
+
+      var background = this.theme.background;
+      var r = (background >> 16) / 255;
+      var g = ((background >> 8) & 0xFF) / 255;
+      var b = (background & 0xFF) / 255;
+      gl.clearColor(r, g, b, 1.0);
+      gl.uniform4f(program.uniforms.uBackgroundColor.location, r, g, b, 1.0);
+
+      gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+      gl.disable(gl.DEPTH_TEST);
+
+      gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+      gl.enable(gl.BLEND);
+
+      gl.drawArrays(gl.TRIANGLES, 0, 6);
+    }
+
+    /**
+     * Uploads and draws the screen if it changed, nothing is drawn while the context is lost.
+     */
+    private paint() {
+      if (this.contextLost || !this.dirty) {
+        return;
+      }
+      if (this.spriteSheetDirty) {
+        this.uploadSpriteSheet();
+        this.stats.bytesUploaded += this.spriteCanvas.width * this.spriteCanvas.height * 4;
+      }
+      this.uploadScreenTexture();
+      this.render();
+      this.stats.framesRendered++;
+      this.dirty = false;
+    }
+
+    public move(x: number, y: number) {
+      this.cursor.x = x;
+      this.cursor.y = y;
+    }
+
+    public next() {
+      this.cursor.x ++;
+      if (this.cursor.x > this.w && this.wrap) {
+        this.cursor.x = 0;
+        this.cursor.y ++;
+      }
+
+      if (this.cursor.y > this.h) {
+        this.cursor.x = 0;
+        this.cursor.y = 0;
+        this.scroll(1);
+      }
+    }
+
+    public nextLine() {
+      this.cursor.y ++;
+      this.cursor.x = 0;
+      if (this.cursor.y >= this.h) {
+        this.cursor.y --;
+        this.scroll(1);
+      }
+    }
+
+    public invalidate() {
+      this.dirty = true;
+    }
+
+    public clear() {
+      var view = this.screenBufferView;
+      var styles = this.styleBufferView;
+      for (var i = 0; i < view.length; i++) {
+        view[i] = 0;
+        styles[i] = 0;
+      }
+      this.markRowsDirty(0, this.h);
+    }
+
+    /**
+     * Clears |w| by |h| cells starting at |x|, |y|, clipped to the screen.
+     */
+    public clearRect(x: number, y: number, w: number, h: number) {
+      var view = this.screenBufferView;
+      var styles = this.styleBufferView;
+      var ex = Math.min(this.w, x + w);
+      var ey = Math.min(this.h, y + h);
+      for (var j = Math.max(0, y); j < ey; j++) {
+        for (var i = Math.max(0, x); i < ex; i++) {
+          var k = j * this.w + i;
+          if (view[k] || styles[k]) {
+            view[k] = 0;
+            styles[k] = 0;
+            this.dirtyRows[j] = 1;
+          }
+        }
+      }
+    }
+
+    public scroll(n: number) {
+      this.scrollRect(0, 0, this.w, this.h, n);
+    }
+
+    /**
+     * Moves the cells of the |w| by |h| rectangle at |x|, |y| up by |n| rows, or down if |n| is
+     * negative, clipped to the screen. The rows they leave are cleared.
+     */
+    public scrollRect(x: number, y: number, w: number, h: number, n: number) {
+      var sx = Math.max(0, x);
+      var ex = Math.min(this.w, x + w);
+      var sy = Math.max(0, y);
+      var ey = Math.min(this.h, y + h);
+      if (ex <= sx || ey <= sy) {
+        return;
+      }
+      scrollCells(this.screenBufferView, this.w, sx, ex, sy, ey, n);
+      scrollCells(this.styleBufferView, this.w, sx, ex, sy, ey, n);
+      this.markRowsDirty(sy, ey);
+    }
+
+    public setColor(r: number, g: number, b: number) {
+      this.color = packColor(r, g, b);
+      this.style = packStyle(styleBackground(this.style), styleAttributes(this.style) & ~Attribute.IndexedForeground);
+    }
+
+    /**
+     * Sets the active color to entry |index| of the theme's palette, see |PaletteIndex|.
+     */
+    public setIndexedColor(index: number) {
+      this.color = index;
+      this.style = packStyle(styleBackground(this.style), styleAttributes(this.style) | Attribute.IndexedForeground);
+    }
+
+    public writeCharCode(c: number) {
+      this.invalidate();
+
+      if (c === CharacterCode.NewLine) {
+        this.nextLine();
+        return;
+      }
+
+      var cursor = this.cursor;
+      var w = this.w;
+      var h = this.h;
+      if (cursor.x > w || cursor.x < 0 ||
+          cursor.y > h || cursor.y < 0) {
+        return;
+      }
+      var slot = this.getGlyphSlot(c);
+      this.putSlot(slot, cursor.x, cursor.y, this.color, this.style);
+      this.next();
+      if (isWideCodePoint(c)) {
+        this.putSlot(slot + 1, cursor.x, cursor.y, this.color, this.style);
+        this.next();
+      }
+    }
+
+    public writeText(s: string) {
+      for (var i = 0; i < s.length; i++) {
+        var c = s.charCodeAt(i);
+        if (isHighSurrogate(c) && i + 1 < s.length && isLowSurrogate(s.charCodeAt(i + 1))) {
+          c = decodeSurrogatePair(c, s.charCodeAt(++i));
+        }
+        this.writeCharCode(c);
+      }
+    }
+
+    /**
+     * Puts code point |c| at |x|, |y|, wide characters also fill the next cell.
+     */
+    public putChar(c: number, x: number, y: number, color: number, style: number = 0) {
+      var slot = this.getGlyphSlot(c);
+      this.putSlot(slot, x, y, color, style);
+      if (isWideCodePoint(c) && x + 1 < this.w) {
+        this.putSlot(slot + 1, x + 1, y, color, style);
+      }
+    }
+
+    /**
+     * Writes a cell, its row is only uploaded again if the cell actually changed.
+     */
+    private putSlot(slot: number, x: number, y: number, color: number, style: number) {
+      var k = y * this.w + x;
+      var i = k * 4;
+      var cell = this.screenBufferView[k];
+      var cellStyle = this.styleBufferView[k];
+      var buffer = this.screenBuffer;
+      var columns = this.tileColumns;
+
+      buffer[i] = (slot % columns) | 0;
+      buffer[i + 1] = (slot / columns) | 0;
+      buffer[i + 2] = color;
+      buffer[i + 3] = color >> 8;
+
+      var styles = this.styleBuffer;
+      styles[i] = style;
+      styles[i + 1] = style >> 8;
+      styles[i + 2] = style >> 16;
+      styles[i + 3] = 0;
+      if (this.screenBufferView[k] !== cell || this.styleBufferView[k] !== cellStyle) {
+        this.dirtyRows[y] = 1;
+      }
+    }
+
+    /**
+     * Maps a point in CSS pixels relative to the canvas to the cell under it. The result is not
+     * clamped to the screen.
+     */
+    public cellFromPoint(x: number, y: number): Cursor {
+      return new Cursor(Math.floor(x * this.ratio / this.tileW), Math.floor(y * this.ratio / this.tileH));
+    }
+
+    /**
+     * Sets the RGB565 color of |n| cells starting at |x|, |y|, clipped to the screen.
+     */
+    public fillColor(x: number, y: number, n: number, color: number) {
+      if (y < 0 || y >= this.h) {
+        return;
+      }
+      var buffer = this.screenBuffer;
+      var styles = this.styleBuffer;
+      var e = Math.min(this.w, x + n);
+      for (x = Math.max(0, x); x < e; x++) {
+        var i = (y * this.w + x) * 4;
+        buffer[i + 2] = color;
+        buffer[i + 3] = color >> 8;
+        styles[i + 2] &= ~Attribute.IndexedForeground;
+      }
+      this.dirtyRows[y] = 1;
+    }
+
+    /**
+     * Adds |Attribute| bits |attributes| to the style of |n| cells starting at |x|, |y|, clipped to
+     * the screen.
+     */
+    public addAttributes(x: number, y: number, n: number, attributes: number) {
+      if (y < 0 || y >= this.h) {
+        return;
+      }
+      var styles = this.styleBuffer;
+      var e = Math.min(this.w, x + n);
+      for (x = Math.max(0, x); x < e; x++) {
+        styles[(y * this.w + x) * 4 + 2] |= attributes;
+      }
+      this.dirtyRows[y] = 1;
+    }
+
+    public writeBuffer(buffer: Buffer, x: number, y: number) {
+      var h = this.h, w = this.w;
+
+      x = clamp(x, 0, buffer.w - 1);
+      y = clamp(y, 0, buffer.h - 1);
+
+      var r = Math.min(h, buffer.h - y);
+
+      for (var j = 0; j < r; j++) {
+        this.writeBufferLine(buffer, y + j, x, j);
+      }
+      this.invalidate();
+    }
+
+    /**
+     * Paints line |y| of |buffer|, starting at column |x|, into screen row |row| starting at screen
+     * column |left|, at most |width| cells.
+     */
+    public writeBufferLine(buffer: Buffer, y: number, x: number, row: number, left: number = 0,
+                           width: number = this.w - left) {
+      var line = buffer.getLine(y);
+      var s = line.start;
+      var l = Math.min(this.w - left, width, line.end - s - x);
+      var cells = line.cells;
+      for (var i = 0; i < l; i++) {
+        var p = s + x + i;
+        var c = cells[p];
+        var slot;
+        if (c === CharacterCode.WideCharacterPadding) {
+          // Right half of the preceding wide character.
+          slot = p > s ? this.getGlyphSlot(cells[p - 1]) + 1 : 0;
+        } else {
+          slot = this.getGlyphSlot(c);
+        }
+        this.putSlot(slot, left + i, row, line.colors[p], line.styles[p]);
+      }
+    }
+  }
+
+  /**
+   * Moves columns |sx| to |ex| of rows |sy| to |ey| of |cells|, a grid |w| cells wide, up by |n|
+   * rows or down if |n| is negative, and zeroes the rows they leave.
+   */
+  function scrollCells(cells: Uint32Array | Uint16Array, w: number, sx: number, ex: number, sy: number,
+                       ey: number, n: number) {
+    for (var k = 0; k < ey - sy; k++) {
+      // Rows are copied in the direction of the move so that no row is overwritten before it's read.
+      var y = n > 0 ? sy + k : ey - 1 - k;
+      var from = y + n;
+      if (from >= sy && from < ey) {
+        cells.set(cells.subarray(from * w + sx, from * w + ex), y * w + sx);
+      } else {
+        for (var x = sx; x < ex; x++) {
+          cells[y * w + x] = 0;
+        }
+      }
+    }
+  }
+
+  /**
+   * Keeps cells in memory without drawing them. Use it where there is no DOM, e.g. to assert on
+   * what a View shows in Node-based tests, rendering with |View.update|.
+   */
+  export class GridScreen implements Renderer {
+    public canvas: HTMLCanvasElement = null;
+    public w: number;
+    public h: number;
+    public theme: Theme;
+    public generation: number = 0;
+
+    /**
+     * Code point, color and style of each cell, row by row. Empty cells have code point 0, wide
+     * characters are followed by a padding cell.
+     */
+    public codePoints: Uint32Array;
+    public colors: Uint16Array;
+    public styles: Uint32Array;
+
+    /**
+     * Size of a cell in the units |cellFromPoint| takes.
+     */
+    protected cellW: number = 1;
+    protected cellH: number = 1;
+    protected dirty: boolean;
+    public stats: RenderStats = new RenderStats();
+
+    constructor(w: number, h: number) {
+      this.theme = Theme.dark;
+      this.resize(w, h);
+    }
+
+    public resize(w: number, h: number) {
+      this.w = w;
+      this.h = h;
+      this.generation++;
+      this.codePoints = new Uint32Array(w * h);
+      this.colors = new Uint16Array(w * h);
+      this.styles = new Uint32Array(w * h);
+      this.invalidate();
+    }
+
+    public setTheme(theme: Theme) {
+      this.theme = theme;
+      this.invalidate();
+    }
+
+    public invalidate() {
+      this.dirty = true;
+    }
+
+    public clear() {
+      for (var i = 0; i < this.codePoints.length; i++) {
+        this.codePoints[i] = 0;
+        this.colors[i] = 0;
+        this.styles[i] = 0;
+      }
+    }
+
+    /**
+     * Clears |w| by |h| cells starting at |x|, |y|, clipped to the screen.
+     */
+    public clearRect(x: number, y: number, w: number, h: number) {
+      var ex = Math.min(this.w, x + w);
+      var ey = Math.min(this.h, y + h);
+      for (var j = Math.max(0, y); j < ey; j++) {
+        for (var i = Math.max(0, x); i < ex; i++) {
+          this.putCell(0, j * this.w + i, 0, 0);
+        }
+      }
+    }
+
+    /**
+     * Puts code point |c| at |x|, |y|, wide characters also fill the next cell.
+     */
+    public putChar(c: number, x: number, y: number, color: number, style: number = 0) {
+      if (x < 0 || x >= this.w || y < 0 || y >= this.h) {
+        return;
+      }
+      this.putCell(c, y * this.w + x, color, style);
+      if (isWideCodePoint(c) && x + 1 < this.w) {
+        this.putCell(CharacterCode.WideCharacterPadding, y * this.w + x + 1, color, style);
+      }
+    }
+
+    private putCell(c: number, i: number, color: number, style: number) {
+      this.codePoints[i] = c;
+      this.colors[i] = color;
+      this.styles[i] = style;
+    }
+
+    /**
+     * Sets the RGB565 color of |n| cells starting at |x|, |y|, clipped to the screen.
+     */
+    public fillColor(x: number, y: number, n: number, color: number) {
+      if (y < 0 || y >= this.h) {
+        return;
+      }
+      var e = Math.min(this.w, x + n);
+      for (x = Math.max(0, x); x < e; x++) {
+        var i = y * this.w + x;
+        this.colors[i] = color;
+        this.styles[i] = packStyle(styleBackground(this.styles[i]),
+                                   styleAttributes(this.styles[i]) & ~Attribute.IndexedForeground);
+      }
+    }
+
+    /**
+     * Adds |Attribute| bits |attributes| to the style of |n| cells starting at |x|, |y|, clipped to
+     * the screen.
+     */
+    public addAttributes(x: number, y: number, n: number, attributes: number) {
+      if (y < 0 || y >= this.h) {
+        return;
+      }
+      var e = Math.min(this.w, x + n);
+      for (x = Math.max(0, x); x < e; x++) {
+        var i = y * this.w + x;
+        this.styles[i] = packStyle(styleBackground(this.styles[i]), styleAttributes(this.styles[i]) | attributes);
+      }
+    }
+
+    /**
+     * Moves the cells of the |w| by |h| rectangle at |x|, |y| up by |n| rows, or down if |n| is
+     * negative, clipped to the screen. The rows they leave are cleared.
+     */
+    public scrollRect(x: number, y: number, w: number, h: number, n: number) {
+      var sx = Math.max(0, x);
+      var ex = Math.min(this.w, x + w);
+      var sy = Math.max(0, y);
+      var ey = Math.min(this.h, y + h);
+      if (ex <= sx || ey <= sy) {
+        return;
+      }
+      scrollCells(this.codePoints, this.w, sx, ex, sy, ey, n);
+      scrollCells(this.colors, this.w, sx, ex, sy, ey, n);
+      scrollCells(this.styles, this.w, sx, ex, sy, ey, n);
+    }
+
+    /**
+     * Copies line |y| of |buffer|, starting at column |x|, into screen row |row| starting at screen
+     * column |left|, at most |width| cells.
+     */
+    public writeBufferLine(buffer: Buffer, y: number, x: number, row: number, left: number = 0,
+                           width: number = this.w - left) {
+      var line = buffer.getLine(y);
+      var s = line.start + x;
+      var l = Math.min(this.w - left, width, line.end - s);
+      var i = row * this.w + left;
+      for (var k = 0; k < l; k++) {
+        this.putCell(line.cells[s + k], i + k, line.colors[s + k], line.styles[s + k]);
+      }
+    }
+
+    public cellFromPoint(x: number, y: number): Cursor {
+      return new Cursor(Math.floor(x / this.cellW), Math.floor(y / this.cellH));
+    }
+
+    /**
+     * Text of screen row |row|, empty cells are spaces.
+     */
+    public getRowText(row: number): string {
+      var text = "";
+      for (var i = row * this.w, e = i + this.w; i < e; i++) {
+        var c = this.codePoints[i];
+        if (c !== CharacterCode.WideCharacterPadding) {
+          text += c ? codePointToString(c) : " ";
+        }
+      }
+      return text;
+    }
+
+    /**
+     * Text of all rows without trailing spaces, separated by new lines.
+     */
+    public getText(): string {
+      var rows = [];
+      for (var row = 0; row < this.h; row++) {
+        rows.push(this.getRowText(row).replace(/ +$/, ""));
+      }
+      return rows.join("\n");
+    }
+  }
+
+  /**
+   * Draws cells with Canvas2D, for browsers without WebGL. Slower than |Screen| since every glyph is
+   * drawn with fillText each time the screen changes.
+   */
+  export class CanvasScreen extends GridScreen {
+    public canvas: HTMLCanvasElement;
+    private context: CanvasRenderingContext2D;
+    private ratio: number;
+    private tileW: number;
+    private tileH: number;
+    private boundPaintIfDirty: () => void;
+    private stopObservingContainer: () => void;
+    public fontFamily: string = defaultFontFamily;
+    public linePadding: number = 4;
+
+    constructor(public container: HTMLDivElement, public fontSize: number = 12) {
+      super(0, 0);
+      this.canvas = document.createElement("canvas");
+      this.canvas.tabIndex = 0;
+      this.canvas.style.outline = "none";
+      container.appendChild(this.canvas);
+      this.context = this.canvas.getContext("2d");
+      this.onContainerSizeChanged();
+      this.stopObservingContainer = observeElementSize(container, this.onContainerSizeChanged.bind(this));
+      this.boundPaintIfDirty = this.paintIfDirty.bind(this);
+      Scheduler.shared.add(this.boundPaintIfDirty, FramePhase.Paint);
+    }
+
+    /**
+     * Stops drawing and observing the container and removes the canvas.
+     */
+    public dispose() {
+      Scheduler.shared.remove(this.boundPaintIfDirty);
+      this.stopObservingContainer();
+      if (this.canvas.parentNode) {
+        this.canvas.parentNode.removeChild(this.canvas);
+      }
+    }
+
+    private onContainerSizeChanged() {
+      var cw = this.container.clientWidth;
+      var ch = this.container.clientHeight;
+      this.ratio = window.devicePixelRatio || 1;
+      this.canvas.width = cw * this.ratio;
+      this.canvas.height = ch * this.ratio;
+      this.canvas.style.width = cw + 'px';
+      this.canvas.style.height = ch + 'px';
+      this.context.font = this.getCSSFont(false);
+      this.tileW = Math.ceil(this.context.measureText("A").width);
+      this.tileH = (this.fontSize + this.linePadding) * this.ratio;
+      this.cellW = this.tileW / this.ratio;
+      this.cellH = this.tileH / this.ratio;
+      this.resize(this.canvas.width / this.tileW | 0, this.canvas.height / this.tileH | 0);
+    }
+
+    /**
+     * Changes the font and recomputes the number of rows and columns.
+     */
+    public setFont(font: FontOptions) {
+      this.fontFamily = font.family !== undefined ? font.family : this.fontFamily;
+      this.fontSize = font.size !== undefined ? font.size : this.fontSize;
+      this.linePadding = font.linePadding !== undefined ? font.linePadding : this.linePadding;
+      this.onContainerSizeChanged();
+    }
+
+    public getFont(): FontOptions {
+      return { family: this.fontFamily, size: this.fontSize, linePadding: this.linePadding };
+    }
+
+    private getCSSFont(bold: boolean): string {
+      return (bold ? "bold " : "") + (this.fontSize * this.ratio) + 'px ' + this.fontFamily;
+    }
+
+    private getCSSColor(color: number, indexed: boolean): string {
+      return indexed ? rgbToCSS(this.theme.colors[color]) : colorToCSS(color);
+    }
+
+    private paint() {
+      var context = this.context;
+      var tileW = this.tileW;
+      var tileH = this.tileH;
+      var defaultBackground = rgbToCSS(this.theme.background);
+      context.globalAlpha = 1;
+      context.fillStyle = defaultBackground;
+      context.fillRect(0, 0, this.canvas.width, this.canvas.height);
+      context.textBaseline = "bottom";
+      var bold = false;
+      context.font = this.getCSSFont(bold);
+      for (var y = 0; y < this.h; y++) {
+        for (var x = 0; x < this.w; x++) {
+          var i = y * this.w + x;
+          var c = this.codePoints[i];
+          var style = this.styles[i];
+          var attributes = styleAttributes(style);
+          if (c === CharacterCode.WideCharacterPadding ||
+              (c === 0 && !(attributes & (Attribute.Background | Attribute.Inverse)))) {
+            continue;
+          }
+          var width = isWideCodePoint(c) ? tileW * 2 : tileW;
+          var foreground = this.getCSSColor(this.colors[i], !!(attributes & Attribute.IndexedForeground));
+          var background = attributes & Attribute.Background ?
+            this.getCSSColor(styleBackground(style), !!(attributes & Attribute.IndexedBackground)) : null;
+          if (attributes & Attribute.Inverse) {
+            var t = foreground;
+            foreground = background || defaultBackground;
+            background = t;
+          }
+          context.globalAlpha = 1;
+          if (background) {
+            context.fillStyle = background;
+            context.fillRect(x * tileW, y * tileH, width, tileH);
+          }
+          context.globalAlpha = attributes & Attribute.Dim ? 0.5 : 1;
+          context.fillStyle = foreground;
+          if (c !== 0 && c !== CharacterCode.Space) {
+            if (bold !== !!(attributes & Attribute.Bold)) {
+              bold = !bold;
+              context.font = this.getCSSFont(bold);
+            }
+            context.fillText(codePointToString(c), x * tileW, (y + 1) * tileH);
+          }
+          if (attributes & Attribute.Underline) {
+            context.fillRect(x * tileW, (y + 1) * tileH - this.ratio, width, this.ratio);
+          }
+        }
+      }
+    }
+
+    private paintIfDirty() {
+      if (this.dirty) {
+        this.paint();
+        this.stats.framesRendered++;
+        this.dirty = false;
+      }
+    }
+  }
+
+  /**
+   * Creates a WebGL screen in |container|, or a Canvas2D screen if WebGL isn't supported.
+   */
+  export function createScreen(container: HTMLDivElement, fontSize: number = 12): Renderer {
+    if (Screen.isSupported()) {
+      return new Screen(container, fontSize);
+    }
+    return new CanvasScreen(container, fontSize);
+  }
+
+  /**
+   * A rectangle of another renderer, so that several views can share one screen. Panes are created
+   * by a |Layout|, which positions them.
+   */
+  export class Pane implements Renderer {
+    public canvas: HTMLCanvasElement;
+
+    /**
+     * Position and size in cells of the parent renderer.
+     */
+    public left: number = 0;
+    public top: number = 0;
+    public w: number = 0;
+    public h: number = 0;
+
+    constructor(public layout: Layout) {
+      this.canvas = layout.screen.canvas;
+    }
+
+    get theme(): Theme {
+      return this.layout.screen.theme;
+    }
+
+    /**
+     * Changes with the screen's generation and whenever the layout moves the panes.
+     */
+    get generation(): number {
+      return this.layout.screen.generation + this.layout.generation;
+    }
+
+    get active(): boolean {
+      return this.layout.activePane === this;
+    }
+
+    get stats(): RenderStats {
+      return this.layout.screen.stats;
+    }
+
+    public setRect(x: number, y: number, w: number, h: number) {
+      this.left = x;
+      this.top = y;
+      this.w = w;
+      this.h = h;
+    }
+
+    public contains(cell: Cursor): boolean {
+      return cell.x >= this.left && cell.x < this.left + this.w &&
+             cell.y >= this.top && cell.y < this.top + this.h;
+    }
+
+    /**
+     * Sets the theme of the whole screen, including all other panes.
+     */
+    public setTheme(theme: Theme) {
+      this.layout.screen.setTheme(theme);
+    }
+
+    public clear() {
+      this.layout.screen.clearRect(this.left, this.top, this.w, this.h);
+    }
+
+    public clearRect(x: number, y: number, w: number, h: number) {
+      var ex = Math.min(this.w, x + w);
+      var ey = Math.min(this.h, y + h);
+      x = Math.max(0, x);
+      y = Math.max(0, y);
+      if (ex > x && ey > y) {
+        this.layout.screen.clearRect(this.left + x, this.top + y, ex - x, ey - y);
+      }
+    }
+
+    public invalidate() {
+      this.layout.screen.invalidate();
+    }
+
+    /**
+     * Puts code point |c| at |x|, |y|. Wide characters that don't fit in the last column are
+     * dropped rather than spilling into the next pane.
+     */
+    public putChar(c: number, x: number, y: number, color: number, style: number = 0) {
+      if (x < 0 || y < 0 || y >= this.h || x >= this.w - (isWideCodePoint(c) ? 1 : 0)) {
+        return;
+      }
+      this.layout.screen.putChar(c, this.left + x, this.top + y, color, style);
+    }
+
+    public fillColor(x: number, y: number, n: number, color: number) {
+      if (y < 0 || y >= this.h) {
+        return;
+      }
+      var e = Math.min(this.w, x + n);
+      x = Math.max(0, x);
+      if (e > x) {
+        this.layout.screen.fillColor(this.left + x, this.top + y, e - x, color);
+      }
+    }
+
+    public addAttributes(x: number, y: number, n: number, attributes: number) {
+      if (y < 0 || y >= this.h) {
+        return;
+      }
+      var e = Math.min(this.w, x + n);
+      x = Math.max(0, x);
+      if (e > x) {
+        this.layout.screen.addAttributes(this.left + x, this.top + y, e - x, attributes);
+      }
+    }
+
+    public scrollRect(x: number, y: number, w: number, h: number, n: number) {
+      var ex = Math.min(this.w, x + w);
+      var ey = Math.min(this.h, y + h);
+      x = Math.max(0, x);
+      y = Math.max(0, y);
+      if (ex > x && ey > y) {
+        this.layout.screen.scrollRect(this.left + x, this.top + y, ex - x, ey - y, n);
+      }
+    }
+
+    public writeBufferLine(buffer: Buffer, y: number, x: number, row: number, left: number = 0,
+                           width: number = this.w - left) {
+      if (row < 0 || row >= this.h || left >= this.w) {
+        return;
+      }
+      this.layout.screen.writeBufferLine(buffer, y, x, this.top + row, this.left + left,
+                                         Math.min(width, this.w - left));
+    }
+
+    public getFont(): FontOptions {
+      return this.layout.screen.getFont ? this.layout.screen.getFont() : null;
+    }
+
+    /**
+     * Changes the font of the whole screen, including all other panes.
+     */
+    public setFont(font: FontOptions) {
+      if (this.layout.screen.setFont) {
+        this.layout.screen.setFont(font);
+      }
+    }
+
+    /**
+     * Maps a point relative to the canvas to a cell relative to the pane, not clamped to it.
+     */
+    public cellFromPoint(x: number, y: number): Cursor {
+      var cell = this.layout.screen.cellFromPoint(x, y);
+      return new Cursor(cell.x - this.left, cell.y - this.top);
+    }
+  }
+
+  /**
+   * Direction panes of a split are laid out in, side by side in a row or stacked in a column.
+   */
+  export enum SplitDirection {
+    Row,
+    Column
+  }
+
+  /**
+   * Node of the layout tree. |first| and |second| are panes or other splits, with a one cell wide
+   * divider between them. |ratio| is the share of the space the first one gets.
+   */
+  class Split {
+    public x: number = 0;
+    public y: number = 0;
+    public w: number = 0;
+    public h: number = 0;
+
+    /**
+     * Column or row of the divider.
+     */
+    public divider: number = 0;
+
+    constructor(public direction: SplitDirection, public ratio: number, public first: Pane | Split,
+                public second: Pane | Split) {
+    }
+
+    public dividerContains(cell: Cursor): boolean {
+      if (this.direction === SplitDirection.Row) {
+        return cell.x === this.divider && cell.y >= this.y && cell.y < this.y + this.h;
+      }
+      return cell.y === this.divider && cell.x >= this.x && cell.x < this.x + this.w;
+    }
+  }
+
+  /**
+   * Divides a screen into panes with horizontal and vertical splits, each pane can host its own
+   * |View|. Panes paint into the cells of the one screen, so it still uploads and draws all of them
+   * at once. Dividers can be dragged with the mouse, clicking a pane makes it the active one that
+   * gets keyboard input.
+   */
+  export class Layout {
+    public panes: Pane[];
+    public activePane: Pane;
+    dividerColor: number = packColor(96, 96, 96);
+
+    /**
+     * Incremented whenever the panes are repositioned, see |Pane.generation|.
+     */
+    public generation: number = 0;
+
+    private root: Pane | Split;
+    private screenW: number;
+    private screenH: number;
+    private screenGeneration: number;
+    private dirty: boolean;
+    private dragSplit: Split;
+    private boundOnMouseDown: (event: MouseEvent) => void;
+    private boundOnMouseMove: (event: MouseEvent) => void;
+    private boundOnMouseUp: (event: MouseEvent) => void;
+    private boundUpdate: () => void;
+
+    /**
+     * Creates a layout with a single pane covering |screen|. It follows the screen's size once per
+     * frame, before views render.
+     */
+    constructor(public screen: Renderer) {
+      var pane = new Pane(this);
+      this.panes = [pane];
+      this.activePane = pane;
+      this.root = pane;
+      this.dirty = true;
+      this.dragSplit = null;
+      this.boundOnMouseMove = this.onMouseMove.bind(this);
+      this.boundOnMouseUp = this.onMouseUp.bind(this);
+      this.boundOnMouseDown = this.onMouseDown.bind(this);
+      this.boundUpdate = this.update.bind(this);
+      if (screen.canvas) {
+        screen.canvas.addEventListener("mousedown", this.boundOnMouseDown, false);
+      }
+      Scheduler.shared.add(this.boundUpdate, FramePhase.Input);
+      this.update();
+    }
+
+    /**
+     * Removes the layout's listeners, views in its panes have to be disposed separately.
+     */
+    public dispose() {
+      if (this.screen.canvas) {
+        this.screen.canvas.removeEventListener("mousedown", this.boundOnMouseDown, false);
+      }
+      Scheduler.shared.remove(this.boundUpdate);
+      this.onMouseUp(null);
+    }
+
+    /**
+     * Splits |pane| in two, it keeps |ratio| of its space and the returned new pane gets the rest,
+     * to its right for rows and below it for columns.
+     */
+    public split(pane: Pane, direction: SplitDirection, ratio: number = 0.5): Pane {
+      if (this.panes.indexOf(pane) < 0) {
+        unexpected("Cannot split a pane of another layout.");
+        return null;
+      }
+      var added = new Pane(this);
+      var split = new Split(direction, clamp(ratio, 0, 1), pane, added);
+      this.replaceNode(pane, split);
+      this.panes.push(added);
+      this.dirty = true;
+      this.update();
+      return added;
+    }
+
+    /**
+     * Removes |pane| and gives its space to the pane or split it was split with. The last pane
+     * can't be closed. Views in |pane| have to be disposed separately.
+     */
+    public close(pane: Pane) {
+      var i = this.panes.indexOf(pane);
+      if (i < 0) {
+        unexpected("Cannot close a pane of another layout.");
+        return;
+      }
+      if (this.root === pane) {
+        unexpected("Cannot close the last pane.");
+        return;
+      }
+      var parent = this.findParent(this.root, pane);
+      var sibling = parent.first === pane ? parent.second : parent.first;
+      if (this.dragSplit === parent) {
+        this.onMouseUp(null);
+      }
+      this.replaceNode(parent, sibling);
+      this.panes.splice(i, 1);
+      if (this.activePane === pane) {
+        this.activePane = this.firstPane(sibling);
+      }
+      this.dirty = true;
+      this.update();
+    }
+
+    /**
+     * Puts |replacement| where |node| is in the tree.
+     */
+    private replaceNode(node: Pane | Split, replacement: Pane | Split) {
+      if (this.root === node) {
+        this.root = replacement;
+        return;
+      }
+      var parent = this.findParent(this.root, node);
+      if (parent.first === node) {
+        parent.first = replacement;
+      } else {
+        parent.second = replacement;
+      }
+    }
+
+    private findParent(node: Pane | Split, child: Pane | Split): Split {
+      if (!(node instanceof Split)) {
+        return null;
+      }
+      if (node.first === child || node.second === child) {
+        return node;
+      }
+      return this.findParent(node.first, child) || this.findParent(node.second, child);
+    }
+
+    private firstPane(node: Pane | Split): Pane {
+      return node instanceof Split ? this.firstPane(node.first) : node;
+    }
+
+    /**
+     * Repositions the panes if the screen size or a split changed, redrawing the dividers and
+     * incrementing |generation| so that views draw their panes again. The layout calls it once per
+     * frame and after splitting or closing panes; call it after resizing the screen to see the new
+     * pane sizes right away.
+     */
+    public update() {
+      var screen = this.screen;
+      if (!this.dirty && this.screenW === screen.w && this.screenH === screen.h &&
+          this.screenGeneration === screen.generation) {
+        return;
+      }
+      this.dirty = false;
+      this.screenW = screen.w;
+      this.screenH = screen.h;
+      this.screenGeneration = screen.generation;
+      this.generation++;
+      this.layoutNode(this.root, 0, 0, screen.w, screen.h);
+      screen.clear();
+      this.drawDividers(this.root);
+      screen.invalidate();
+    }
+
+    private layoutNode(node: Pane | Split, x: number, y: number, w: number, h: number) {
+      if (node instanceof Pane) {
+        node.setRect(x, y, w, h);
+        return;
+      }
+      var split = node;
+      split.x = x;
+      split.y = y;
+      split.w = w;
+      split.h = h;
+      var size = split.direction === SplitDirection.Row ? w : h;
+      var first = clamp(Math.round((size - 1) * split.ratio), 0, Math.max(0, size - 1));
+      var second = Math.max(0, size - first - 1);
+      if (split.direction === SplitDirection.Row) {
+        split.divider = x + first;
+        this.layoutNode(split.first, x, y, first, h);
+        this.layoutNode(split.second, x + first + 1, y, second, h);
+      } else {
+        split.divider = y + first;
+        this.layoutNode(split.first, x, y, w, first);
+        this.layoutNode(split.second, x, y + first + 1, w, second);
+      }
+    }
+
+    private drawDividers(node: Pane | Split) {
+      if (!(node instanceof Split)) {
+        return;
+      }
+      var split = node;
+      var screen = this.screen;
+      if (split.direction === SplitDirection.Row) {
+        for (var y = split.y; y < split.y + split.h; y++) {
+          screen.putChar(0x2502, split.divider, y, this.dividerColor);
+        }
+      } else {
+        for (var x = split.x; x < split.x + split.w; x++) {
+          screen.putChar(0x2500, x, split.divider, this.dividerColor);
+        }
+      }
+      this.drawDividers(split.first);
+      this.drawDividers(split.second);
+    }
+
+    /**
+     * Pane under |cell| of the screen, or null if it is on a divider.
+     */
+    public paneAt(cell: Cursor): Pane {
+      this.update();
+      for (var i = 0; i < this.panes.length; i++) {
+        if (this.panes[i].contains(cell)) {
+          return this.panes[i];
+        }
+      }
+      return null;
+    }
+
+    private splitAt(node: Pane | Split, cell: Cursor): Split {
+      if (!(node instanceof Split)) {
+        return null;
+      }
+      if (node.dividerContains(cell)) {
+        return node;
+      }
+      return this.splitAt(node.first, cell) || this.splitAt(node.second, cell);
+    }
+
+    private getMouseCell(event: MouseEvent): Cursor {
+      var point = getTargetMousePos(event, this.screen.canvas);
+      return this.screen.cellFromPoint(point.x, point.y);
+    }
+
+    private onMouseDown(event: MouseEvent) {
+      if (event.button !== 0) {
+        return;
+      }
+      var cell = this.getMouseCell(event);
+      var pane = this.paneAt(cell);
+      if (pane) {
+        this.activePane = pane;
+        return;
+      }
+      this.dragSplit = this.splitAt(this.root, cell);
+      if (this.dragSplit) {
+        event.preventDefault();
+        window.addEventListener("mousemove", this.boundOnMouseMove, false);
+        window.addEventListener("mouseup", this.boundOnMouseUp, false);
+      }
+    }
+
+    private onMouseMove(event: MouseEvent) {
+      var split = this.dragSplit;
+      var cell = this.getMouseCell(event);
+      var size = split.direction === SplitDirection.Row ? split.w : split.h;
+      var offset = split.direction === SplitDirection.Row ? cell.x - split.x : cell.y - split.y;
+      if (size > 1) {
+        var ratio = clamp(offset / (size - 1), 0, 1);
+        if (ratio !== split.ratio) {
+          split.ratio = ratio;
+          this.dirty = true;
+          this.update();
+        }
+      }
+    }
+
+    private onMouseUp(event: MouseEvent) {
+      window.removeEventListener("mousemove", this.boundOnMouseMove, false);
+      window.removeEventListener("mouseup", this.boundOnMouseUp, false);
+      this.dragSplit = null;
+    }
+  }
+
+  function getWheelEventName(): string {
+    return "onwheel" in document ? "wheel" : "mousewheel";
+  }
+
+  function getTargetMousePos(event: MouseEvent, target: HTMLElement): any {
+    var rect = target.getBoundingClientRect();
+    return {
+      x: event.clientX - rect.left,
+      y: event.clientY - rect.top
+    };
+  }
+
+  enum SelectionUnit {
+    Character,
+    Word,
+    Line
+  }
+
+  /**
+   * Word characters for double click selection, anything outside ASCII counts as a word character.
+   */
+  function isWordCharCode(c: number): boolean {
+    return (c >= 48 && c <= 57) || (c >= 65 && c <= 90) || (c >= 97 && c <= 122) || c === 95 || c === 36 || c > 127;
+  }
+
+  /**
+   * Parts of the view that react to the mouse other than the text.
+   */
+  enum ScrollbarPart {
+    None,
+    Vertical,
+    Horizontal,
+    Minimap
+  }
+
+  /**
+   * Length of a scrollbar thumb on a |track| cells long track, for |visible| out of |total| rows or
+   * columns.
+   */
+  function getThumbSize(track: number, total: number, visible: number): number {
+    return total <= visible ? track : clamp(Math.round(track * visible / total), 1, track);
+  }
+
+  function getThumbStart(track: number, total: number, visible: number, position: number): number {
+    var range = track - getThumbSize(track, total, visible);
+    return total <= visible ? 0 : clamp(Math.round(range * position / (total - visible)), 0, range);
+  }
+
+  /**
+   * Inverse of |getThumbStart|.
+   */
+  function getThumbPosition(track: number, total: number, visible: number, start: number): number {
+    var range = track - getThumbSize(track, total, visible);
+    return range <= 0 ? 0 : Math.round(start * (total - visible) / range);
+  }
+
+  /**
+   * Columns of the line gutter. Times are shown in seconds, time deltas to the previous line in
+   * milliseconds. Times need a buffer that records timestamps.
+   */
+  export enum GutterColumn {
+    LineNumber = 1,
+    Time = 2,
+    DeltaTime = 4
+  }
+
+  /**
+   * Number of digits of the non-negative integer |n|.
+   */
+  function countDigits(n: number): number {
+    var digits = 1;
+    while (n >= 10) {
+      n = Math.floor(n / 10);
+      digits ++;
+    }
+    return digits;
+  }
+
+  /**
+   * Number of cells the integer |n|, in thousandths, takes with 3 decimals, without a sign.
+   */
+  function thousandthsWidth(n: number): number {
+    return countDigits(Math.floor(Math.abs(n) / 1000)) + 4;
+  }
+
+  /**
+   * Minimap glyphs for densities 0 to 4.
+   */
+  var densityGlyphs = [0x20, 0x2591, 0x2592, 0x2593, 0x2588];
+
+  export class View {
+    /**
+     * Milliseconds per frame spent indexing lines for the filter.
+     */
+    static filterBudget = 4;
+
+    /**
+     * Milliseconds per frame spent searching lines.
+     */
+    static searchBudget = 4;
+
+    /**
+     * Font sizes zooming stays within.
+     */
+    static minFontSize = 6;
+    static maxFontSize = 48;
+
+    screen: Renderer;
+    buffer: Buffer;
+    version: number;
+
+    /**
+     * Scroll position, |y| is a row. The view shows all buffer lines, or only the ones that pass
+     * the filter, each one in one row or, when wrapping, in as many rows as it takes.
+     */
+    x: number;
+    y: number;
+
+    /**
+     * Whether long lines are wrapped instead of scrolling horizontally.
+     */
+    private wrap: boolean;
+
+    /**
+     * Glyph drawn in the last column of rows that continue on the next row.
+     */
+    wrapIndicator: number = 0x21B5;
+    wrapIndicatorColor: number = packColor(128, 128, 128);
+
+    /**
+     * Absolute line numbers of the headers of folded groups. Lines in folded groups are hidden like
+     * filtered out lines.
+     */
+    private foldedGroups: { [line: number]: boolean };
+    private foldedGroupCount: number;
+
+    /**
+     * Glyphs drawn before the names of folded and unfolded groups.
+     */
+    foldedMarker: number = 0x25B8;
+    unfoldedMarker: number = 0x25BE;
+    foldMarkerColor: number = packColor(128, 128, 128);
+
+    /**
+     * First row of each shown line when wrapping, followed by the total number of rows. Only
+     * |wrapLines| shown lines are indexed, new lines are added as they appear and the index is
+     * rebuilt when the screen width changes.
+     */
+    private wrapStarts: Uint32Array;
+    private wrapLines: number;
+    private wrapWidth: number;
+
+    /**
+     * Screen size and generation as of the last render.
+     */
+    private screenW: number;
+    private screenH: number;
+    private screenGeneration: number;
+
+    /**
+     * Absolute line and first column each screen row showed as of the last render, -1 for rows
+     * that must be painted again. Lines only change while they are the last, incomplete line, so
+     * rows showing the same complete line from the same column are left as they are.
+     */
+    private rowLines: Float64Array = new Float64Array(0);
+    private rowColumns: Int32Array = new Int32Array(0);
+
+    /**
+     * First row of the view, gutter column widths and content width as of the last render. A
+     * change of |rowTop| scrolls the rows that are still shown, other changes repaint all rows.
+     */
+    private rowTop: number = 0;
+    private rowLineNumberW: number = -1;
+    private rowTimeW: number = -1;
+    private rowDeltaTimeW: number = -1;
+    private rowContentW: number = -1;
+
+    /**
+     * Whether the view scrolled or some rows were marked to be painted again, see |repaintLine|.
+     */
+    private rowsChanged: boolean = false;
+
+    /**
+     * Detectors links are looked for with, a link overlapping one found by an earlier detector is
+     * dropped. Only visible lines are searched, when the mouse is over them.
+     */
+    linkDetectors: LinkDetector[] = [LinkDetector.url, LinkDetector.sourceLocation];
+
+    /**
+     * Called when a link is clicked. Links are only underlined on hover while it is set.
+     */
+    onLinkClick: (link: Link, event: MouseEvent) => void = null;
+
+    /**
+     * Link under the mouse, and the links of the last line searched, by absolute line number and
+     * line length since the last line may still grow.
+     */
+    private hoveredLink: Link = null;
+    private links: Link[] = [];
+    private linksLine: number = -1;
+    private linksLength: number = -1;
+
+    private filter: LineIndex;
+    private filterPattern: Pattern;
+
+    /**
+     * Non zero for each hidden channel id.
+     */
+    private hiddenChannels: Uint8Array;
+    private hiddenChannelCount: number;
+
+    /**
+     * Absolute line to scroll to the top once the filter has indexed it, or -1.
+     */
+    private anchorLine: number;
+
+    /**
+     * Number of lines evicted from the buffer as of the last render.
+     */
+    private evicted: number;
+
+    private searchResults: Search;
+
+    /**
+     * Whether to scroll to the first match once the search finds one.
+     */
+    private findPending: boolean = false;
+
+    /**
+     * Colors of search matches.
+     */
+    matchColor: number = packColor(255, 255, 0);
+    currentMatchColor: number = packColor(255, 128, 0);
+
+    /**
+     * Selection end points, |x| is a column and |y| an absolute line number. The selection extends
+     * from the anchor to the focus, rounded out to whole words or lines by the selection unit.
+     */
+    private selectionAnchor: Cursor;
+    private selectionFocus: Cursor;
+    private selectionUnit: SelectionUnit;
+
+    selectionColor: number = packColor(64, 160, 255);
 
-    public cursor: Cursor;
-    public color: number;
-    public wrap: boolean = false;
+    /**
+     * Whether the viewport is pinned to the bottom as lines are added. Scrolling up turns it off,
+     * scrolling back down to the bottom turns it on again.
+     */
+    private follow: boolean;
 
-    constructor(public container: HTMLDivElement, public fontSize: number = 12) {
-      this.canvas = document.createElement("canvas");
-      container.appendChild(this.canvas);
-      var gl = this.gl = this.canvas.getContext("webgl", { alpha: false });
+    /**
+     * Labels drawn in the bottom right corner while following or not, empty labels aren't drawn.
+     * The paused label is only drawn while there are rows below the viewport.
+     */
+    followLabel: string = " FOLLOW ";
+    pausedLabel: string = " PAUSED ";
+    followLabelColor: number = packColor(0, 192, 96);
+    pausedLabelColor: number = packColor(255, 160, 0);
 
-      gl.clearColor(0.0, 0.0, 0.0, 1);
-      gl.clear(gl.COLOR_BUFFER_BIT);
+    /**
+     * Scrollbars are drawn in the last column, and in the last row if lines are wider than the
+     * view. The minimap is drawn to the left of the vertical scrollbar, each of its rows stands for
+     * an equal share of the rows and shows how many of them are colored, in the color of the most
+     * colored one.
+     */
+    showScrollbar: boolean = true;
+    showMinimap: boolean = false;
+    minimapWidth: number = 2;
+    scrollbarTrackColor: number = packColor(64, 64, 64);
+    scrollbarThumbColor: number = packColor(140, 140, 140);
 
-      this.cursor = new Cursor(0, 0);
-      this.color = 0xFFFF;
-      this.initialize();
-      this.initializeColorPaletteTexture();
+    /**
+     * Number of lines sampled for each minimap row.
+     */
+    minimapSamples: number = 16;
+
+    /**
+     * Color, style and density of each minimap row as of |minimapVersion|.
+     */
+    private minimapColors: Uint16Array;
+    private minimapStyles: Uint32Array;
+    private minimapDensities: Uint8Array;
+    private minimapVersion: number;
+    private minimapRows: number;
+
+    /**
+     * Gutter columns, see |GutterColumn|, and the widths they had at the last render. The gutter
+     * is as wide as the largest number in the visible rows needs.
+     */
+    private gutterColumns: number;
+    private gutterW: number;
+    private lineNumberW: number;
+    private timeW: number;
+    private deltaTimeW: number;
+    gutterColor: number = packColor(128, 128, 128);
+
+    /**
+     * Gutter columns, filter and first and last visible absolute lines the widths were measured
+     * for, lines don't change once complete so the widths are only measured when these do.
+     */
+    private measuredGutterColumns: number = -1;
+    private measuredGutterFilter: LineIndex = null;
+    private measuredFirstLine: number = -1;
+    private measuredLastLine: number = -1;
 
-      this.listenForContainerSizeChanges();
-      this.enterRenderLoop();
+    /**
+     * Scrollbar being dragged and the cell of the thumb it was grabbed at.
+     */
+    private dragPart: ScrollbarPart;
+    private dragOffset: number;
+    private boundOnScrollbarMouseMove: (event: MouseEvent) => void;
+    private boundOnScrollbarMouseUp: (event: MouseEvent) => void;
+
+    private boundOnMouseMove: (event: MouseEvent) => void;
+    private boundOnMouseUp: (event: MouseEvent) => void;
+    private boundOnMouseWheel: (event: any) => void;
+    private boundOnMouseDown: (event: MouseEvent) => void;
+    private boundOnHoverMouseMove: (event: MouseEvent) => void;
+    private boundOnMouseLeave: (event: MouseEvent) => void;
+    private boundOnKeyDown: (event: KeyboardEvent) => void;
+    private boundOnCopy: (event: ClipboardEvent) => void;
+    private boundUpdate: () => void;
+
+    constructor(screen: Renderer, buffer: Buffer) {
+      this.x = 0;
+      this.y = 0;
+      this.screen = screen;
+      this.buffer = buffer;
+      this.version = buffer.version;
+      this.evicted = buffer.evicted;
+      this.hiddenChannels = new Uint8Array(256);
+      this.hiddenChannelCount = 0;
+      this.foldedGroups = Object.create(null);
+      this.foldedGroupCount = 0;
+      this.anchorLine = -1;
+      this.wrap = false;
+      this.wrapStarts = new Uint32Array(1024);
+      this.wrapLines = 0;
+      this.wrapWidth = 0;
+      this.follow = false;
+      this.minimapColors = new Uint16Array(0);
+      this.minimapStyles = new Uint32Array(0);
+      this.minimapDensities = new Uint8Array(0);
+      this.minimapVersion = -1;
+      this.minimapRows = 0;
+      this.dragPart = ScrollbarPart.None;
+      this.gutterColumns = 0;
+      this.gutterW = this.lineNumberW = this.timeW = this.deltaTimeW = 0;
+      this.boundOnMouseMove = this.onMouseMove.bind(this);
+      this.boundOnMouseUp = this.onMouseUp.bind(this);
+      this.boundOnScrollbarMouseMove = this.onScrollbarMouseMove.bind(this);
+      this.boundOnScrollbarMouseUp = this.onScrollbarMouseUp.bind(this);
+      this.boundUpdate = this.update.bind(this);
+      Scheduler.shared.add(this.boundUpdate);
+      if (!screen.canvas) {
+        return;
+      }
+
+      this.boundOnMouseWheel = this.onMouseWheel.bind(this);
+      this.boundOnMouseDown = this.onMouseDown.bind(this);
+      this.boundOnHoverMouseMove = this.onHoverMouseMove.bind(this);
+      this.boundOnMouseLeave = this.onMouseLeave.bind(this);
+      this.boundOnKeyDown = this.onKeyDown.bind(this);
+      this.boundOnCopy = this.onCopy.bind(this);
+      screen.canvas.addEventListener(getWheelEventName(), this.boundOnMouseWheel, false);
+      screen.canvas.addEventListener("mousedown", this.boundOnMouseDown, false);
+      screen.canvas.addEventListener("mousemove", this.boundOnHoverMouseMove, false);
+      screen.canvas.addEventListener("mouseleave", this.boundOnMouseLeave, false);
+      screen.canvas.addEventListener("keydown", this.boundOnKeyDown, false);
+      document.addEventListener("copy", this.boundOnCopy, false);
     }
 
-    private initialize() {
-      var gl = this.gl;
-      this.program = createProgramFromSource(gl, Screen.vertexShader, Screen.fragmentShader);
-      gl.useProgram(this.program);
-      this.vertexBuffer = gl.createBuffer();
-      this.tileTexture = gl.createTexture();
-      this.tileMapTexture = gl.createTexture();
-      this.colorPaletteTexture = gl.createTexture();
-      this.invalidate();
+    /**
+     * Stops rendering and removes all listeners. The screen and buffer are left as they are.
+     */
+    public dispose() {
+      Scheduler.shared.remove(this.boundUpdate);
+      var canvas = this.screen.canvas;
+      if (!canvas) {
+        return;
+      }
+      window.removeEventListener("mousemove", this.boundOnMouseMove, false);
+      window.removeEventListener("mouseup", this.boundOnMouseUp, false);
+      window.removeEventListener("mousemove", this.boundOnScrollbarMouseMove, false);
+      window.removeEventListener("mouseup", this.boundOnScrollbarMouseUp, false);
+      canvas.removeEventListener(getWheelEventName(), this.boundOnMouseWheel, false);
+      canvas.removeEventListener("mousedown", this.boundOnMouseDown, false);
+      canvas.removeEventListener("mousemove", this.boundOnHoverMouseMove, false);
+      canvas.removeEventListener("mouseleave", this.boundOnMouseLeave, false);
+      canvas.removeEventListener("keydown", this.boundOnKeyDown, false);
+      document.removeEventListener("copy", this.boundOnCopy, false);
+    }
+
+    /**
+     * Number of shown lines.
+     */
+    private get shownLines(): number {
+      return this.filter ? this.filter.count : this.buffer.h;
+    }
+
+    /**
+     * Buffer line of the |n|th shown line.
+     */
+    private lineAt(n: number): number {
+      return this.filter ? this.filter.lines[n] - this.buffer.evicted : n;
+    }
+
+    /**
+     * Index of buffer line |y| among the shown lines, or of the next shown line if it is filtered
+     * out.
+     */
+    private shownIndexOf(y: number): number {
+      return this.filter ? this.filter.indexOf(y + this.buffer.evicted) : y;
+    }
+
+    /**
+     * Number of rows.
+     */
+    private get rows(): number {
+      return this.wrap ? this.wrapStarts[this.wrapLines] : this.shownLines;
+    }
+
+    /**
+     * Index of the shown line in row |row|.
+     */
+    private rowAt(row: number): number {
+      if (!this.wrap) {
+        return row;
+      }
+      var starts = this.wrapStarts;
+      var lo = 0;
+      var hi = this.wrapLines - 1;
+      while (lo < hi) {
+        var mid = (lo + hi + 1) >> 1;
+        if (starts[mid] <= row) {
+          lo = mid;
+        } else {
+          hi = mid - 1;
+        }
+      }
+      return lo;
+    }
+
+    /**
+     * Column of the line shown in row |row| at which the row starts.
+     */
+    private columnAt(row: number): number {
+      return this.wrap ? (row - this.wrapStarts[this.rowAt(row)]) * this.wrapWidth : this.x | 0;
+    }
+
+    /**
+     * Number of columns a row shows.
+     */
+    private get rowWidth(): number {
+      return this.wrap ? this.wrapWidth : this.contentW;
+    }
+
+    /**
+     * Number of screen columns left for text between the gutter and the minimap and the vertical
+     * scrollbar.
+     */
+    private get contentW(): number {
+      var w = this.screen.w - this.gutterW;
+      if (this.showScrollbar) {
+        w --;
+      }
+      if (this.showMinimap) {
+        w -= this.minimapWidth;
+      }
+      return Math.max(1, w);
+    }
+
+    /**
+     * Number of screen rows left for text above the horizontal scrollbar.
+     */
+    private get contentH(): number {
+      return this.hasHorizontalScrollbar ? Math.max(0, this.screen.h - 1) : this.screen.h;
+    }
+
+    private get hasHorizontalScrollbar(): boolean {
+      return this.showScrollbar && !this.wrap && this.buffer.w > this.contentW;
+    }
+
+    /**
+     * Row showing column |x| of the |n|th shown line.
+     */
+    private rowOf(n: number, x: number): number {
+      if (!this.wrap) {
+        return n;
+      }
+      n = Math.min(n, this.wrapLines);
+      if (n === this.wrapLines) {
+        return this.wrapStarts[n];
+      }
+      var last = this.wrapStarts[n + 1] - 1;
+      return Math.min(this.wrapStarts[n] + (x / this.wrapWidth | 0), last);
+    }
+
+    /**
+     * Wraps long lines into multiple rows, or shows each line in a single row.
+     */
+    public setWrap(wrap: boolean) {
+      if (this.wrap === wrap) {
+        return;
+      }
+      var y = this.y | 0;
+      var top = y < this.rows ? this.rowAt(y) : this.shownLines;
+      this.wrap = wrap;
+      this.wrapLines = 0;
+      this.updateWrapIndex();
+      this.x = 0;
+      this.y = clamp(this.rowOf(top, 0), 0, Math.max(0, this.rows - this.contentH));
+      this.version = 0;
+    }
+
+    /**
+     * Drops the first |n| shown lines from the wrap index, returns the number of rows they took.
+     */
+    private dropWrapLines(n: number): number {
+      n = Math.min(n, this.wrapLines);
+      var starts = this.wrapStarts;
+      var rows = starts[n];
+      for (var k = 0; k <= this.wrapLines - n; k++) {
+        starts[k] = starts[k + n] - rows;
+      }
+      this.wrapLines -= n;
+      return rows;
+    }
+
+    /**
+     * Indexes the rows of shown lines added since the last update. If the screen width changed,
+     * rebuilds the index and keeps the line at the top of the viewport in place.
+     */
+    private updateWrapIndex() {
+      if (!this.wrap) {
+        return;
+      }
+      var width = Math.max(1, this.contentW - 1);
+      if (width !== this.wrapWidth) {
+        var y = this.y | 0;
+        var top = this.wrapLines && y < this.rows ? this.rowAt(y) : -1;
+        this.wrapWidth = width;
+        this.wrapLines = 0;
+        this.updateWrapIndex();
+        if (top >= 0) {
+          this.y = this.rowOf(top, 0);
+        }
+        return;
+      }
+      var n = this.shownLines;
+      if (this.wrapStarts.length < n + 1) {
+        var starts = new Uint32Array(Math.max(this.wrapStarts.length * 2, n + 1));
+        starts.set(this.wrapStarts, 0);
+        this.wrapStarts = starts;
+      }
+      for (var k = this.wrapLines; k < n; k++) {
+        var length = this.buffer.getLineLength(this.lineAt(k));
+        this.wrapStarts[k + 1] = this.wrapStarts[k] + Math.max(1, Math.ceil(length / width));
+      }
+      this.wrapLines = n;
+    }
+
+    /**
+     * Whether absolute line |line| passes the filter.
+     */
+    private isLineVisible(line: number): boolean {
+      return !this.filter || this.filter.contains(line);
+    }
+
+    /**
+     * Absolute number of the line at the top of the viewport.
+     */
+    private getTopLine(): number {
+      var y = this.y | 0;
+      return this.buffer.evicted + (y < this.rows ? this.lineAt(this.rowAt(y)) : this.buffer.h);
+    }
+
+    /**
+     * Only shows lines that contain |query|. The buffer is indexed in the background, a few
+     * milliseconds per frame, so matching lines appear progressively.
+     */
+    public setFilter(query: string | RegExp, caseSensitive: boolean = true) {
+      this.filterPattern = new Pattern(query, caseSensitive);
+      this.updateFilter();
+    }
+
+    public clearFilter() {
+      this.filterPattern = null;
+      this.updateFilter();
+    }
+
+    /**
+     * Shows or hides the lines of |channel|.
+     */
+    public setChannelVisible(channel: Channel, visible: boolean) {
+      var hidden = visible ? 0 : 1;
+      if (this.hiddenChannels[channel.id] === hidden) {
+        return;
+      }
+      this.hiddenChannels[channel.id] = hidden;
+      this.hiddenChannelCount += visible ? -1 : 1;
+      this.updateFilter();
+    }
+
+    public isChannelVisible(channel: Channel): boolean {
+      return !this.hiddenChannels[channel.id];
+    }
+
+    /**
+     * Folds or unfolds the group opened by absolute line |line|, keeping the line at the top of
+     * the viewport in place.
+     */
+    public setGroupFolded(line: number, folded: boolean) {
+      var y = line - this.buffer.evicted;
+      if (!this.buffer.isGroupHeader(y) || this.isGroupFolded(line) === folded) {
+        return;
+      }
+      if (folded) {
+        this.foldedGroups[line] = true;
+        this.foldedGroupCount++;
+      } else {
+        delete this.foldedGroups[line];
+        this.foldedGroupCount--;
+      }
+      this.updateFilter();
+      if (folded && this.anchorLine > line && this.anchorLine < this.buffer.getGroupEnd(y) + this.buffer.evicted) {
+        // The top line was folded away, show its group instead.
+        this.anchorLine = line;
+      }
+    }
+
+    public isGroupFolded(line: number): boolean {
+      return !!this.foldedGroups[line];
+    }
+
+    /**
+     * Folds or unfolds the innermost group that contains absolute line |line|. Returns false if it
+     * isn't in a group.
+     */
+    public toggleGroup(line: number): boolean {
+      var header = this.buffer.getGroupStart(line - this.buffer.evicted);
+      if (header < 0) {
+        return false;
+      }
+      header += this.buffer.evicted;
+      this.setGroupFolded(header, !this.isGroupFolded(header));
+      return true;
+    }
+
+    public unfoldAllGroups() {
+      if (this.foldedGroupCount) {
+        this.foldedGroups = Object.create(null);
+        this.foldedGroupCount = 0;
+        this.updateFilter();
+      }
+    }
+
+    /**
+     * Forgets the folded groups opened by lines before absolute line |evicted|, which have been
+     * evicted, and shows the lines of theirs that remain.
+     */
+    private dropFoldedGroups(evicted: number) {
+      var count = this.foldedGroupCount;
+      for (var key in this.foldedGroups) {
+        if (+key < evicted) {
+          delete this.foldedGroups[key];
+          this.foldedGroupCount--;
+        }
+      }
+      if (this.foldedGroupCount < count) {
+        this.updateFilter();
+        this.anchorLine = Math.max(this.anchorLine, evicted);
+      }
+    }
+
+    /**
+     * Draws the fold marker of line |y| if it opens a group, for the row showing it from column |x|.
+     */
+    private renderFoldMarker(y: number, x: number, row: number, left: number, width: number) {
+      var buffer = this.buffer;
+      if (!buffer.isGroupHeader(y)) {
+        return;
+      }
+      var column = buffer.getGroupDepth(y) * buffer.indentWidth - x;
+      if (column >= 0 && column < width) {
+        var marker = this.isGroupFolded(buffer.evicted + y) ? this.foldedMarker : this.unfoldedMarker;
+        this.screen.putChar(marker, left + column, row, this.foldMarkerColor);
+      }
+    }
+
+    /**
+     * Toggles the group if |position| is on a fold marker.
+     */
+    private onFoldMarkerMouseDown(position: Cursor): boolean {
+      var buffer = this.buffer;
+      var y = position.y - buffer.evicted;
+      var column = buffer.getGroupDepth(y) * buffer.indentWidth;
+      if (!buffer.isGroupHeader(y) || position.x < column || position.x >= column + buffer.indentWidth) {
+        return false;
+      }
+      this.setGroupFolded(position.y, !this.isGroupFolded(position.y));
+      return true;
+    }
+
+    /**
+     * Rebuilds the line index from the filter pattern and hidden channels, keeping the line at the
+     * top of the viewport in place.
+     */
+    private updateFilter() {
+      this.anchorLine = this.getTopLine();
+      var pattern = this.filterPattern;
+      var hiddenChannels = this.hiddenChannels;
+      var foldedGroups = this.foldedGroups;
+      // Depth of the folded group being skipped, lines are indexed in order.
+      var foldedDepth = -1;
+      if (pattern || this.hiddenChannelCount || this.foldedGroupCount) {
+        this.filter = new LineIndex(function (buffer: Buffer, y: number) {
+          var depth = buffer.getGroupDepth(y);
+          if (foldedDepth >= 0 && depth > foldedDepth) {
+            return false;
+          }
+          foldedDepth = buffer.isGroupHeader(y) && foldedGroups[buffer.evicted + y] ? depth : -1;
+          return !hiddenChannels[buffer.channels[y]] && (!pattern || pattern.test(buffer, y));
+        });
+      } else {
+        this.filter = null;
+      }
+      this.wrapLines = 0;
+      this.y = 0;
+      this.version = 0;
+    }
+
+    /**
+     * Buffer position under the mouse, or null if there are no rows.
+     */
+    private getMouseBufferPosition(event: MouseEvent): Cursor {
+      var buffer = this.buffer;
+      var rows = this.rows;
+      if (rows === 0) {
+        return null;
+      }
+      var point = getTargetMousePos(event, this.screen.canvas);
+      var cell = this.screen.cellFromPoint(point.x, point.y);
+      var row = clamp(cell.y + (this.y | 0), 0, rows - 1);
+      var y = this.lineAt(this.rowAt(row));
+      var x = this.columnAt(row) + clamp(cell.x - this.gutterW, 0, this.rowWidth);
+      x = clamp(x, 0, buffer.getLineLength(y));
+      return new Cursor(x, y + buffer.evicted);
+    }
+
+    /**
+     * Whether |event| is over this view's part of the canvas, which is shared by all panes of a
+     * layout.
+     */
+    private isMouseOver(event: MouseEvent): boolean {
+      var point = getTargetMousePos(event, this.screen.canvas);
+      var cell = this.screen.cellFromPoint(point.x, point.y);
+      return cell.x >= 0 && cell.x < this.screen.w && cell.y >= 0 && cell.y < this.screen.h;
+    }
+
+    private onMouseDown(event: MouseEvent) {
+      if (event.button !== 0 || !this.isMouseOver(event)) {
+        return;
+      }
+      event.preventDefault();
+      this.screen.canvas.focus();
+      var point = getTargetMousePos(event, this.screen.canvas);
+      if (this.onScrollbarMouseDown(this.screen.cellFromPoint(point.x, point.y))) {
+        return;
+      }
+      var position = this.getMouseBufferPosition(event);
+      if (!position || (!event.shiftKey && this.onFoldMarkerMouseDown(position))) {
+        return;
+      }
+      var hit = this.hitTest(point.x, point.y);
+      var link = hit && this.onLinkClick && !event.shiftKey ? this.getLinkAt(hit) : null;
+      if (link) {
+        this.onLinkClick(link, event);
+        return;
+      }
+      if (event.shiftKey && this.selectionAnchor) {
+        this.selectionFocus = position;
+      } else {
+        this.selectionAnchor = this.selectionFocus = position;
+        this.selectionUnit = event.detail >= 3 ? SelectionUnit.Line :
+                             event.detail === 2 ? SelectionUnit.Word : SelectionUnit.Character;
+      }
+      window.addEventListener("mousemove", this.boundOnMouseMove, false);
+      window.addEventListener("mouseup", this.boundOnMouseUp, false);
+      this.version = 0;
+    }
+
+    private onMouseMove(event: MouseEvent) {
+      // Scroll while dragging past the top or bottom edge to extend the selection off screen.
+      var point = getTargetMousePos(event, this.screen.canvas);
+      var cell = this.screen.cellFromPoint(point.x, point.y);
+      if (cell.y < 0) {
+        this.scroll(0, -1);
+      } else if (cell.y >= this.screen.h) {
+        this.scroll(0, 1);
+      }
+      var position = this.getMouseBufferPosition(event);
+      if (position) {
+        this.selectionFocus = position;
+        this.version = 0;
+      }
+    }
+
+    /**
+     * Underlines the link under the mouse, if links can be clicked.
+     */
+    private onHoverMouseMove(event: MouseEvent) {
+      var link = null;
+      if (this.onLinkClick && this.isMouseOver(event)) {
+        var point = getTargetMousePos(event, this.screen.canvas);
+        var position = this.hitTest(point.x, point.y);
+        link = position ? this.getLinkAt(position) : null;
+      }
+      this.setHoveredLink(link);
+    }
+
+    private onMouseLeave(event: MouseEvent) {
+      this.setHoveredLink(null);
+    }
+
+    private setHoveredLink(link: Link) {
+      var hovered = this.hoveredLink;
+      if (link === hovered) {
+        return;
+      }
+      if (hovered) {
+        this.repaintLine(hovered.line);
+      }
+      if (link) {
+        this.repaintLine(link.line);
+      }
+      this.hoveredLink = link;
+      this.screen.canvas.style.cursor = link ? "pointer" : "";
+    }
+
+    /**
+     * Buffer position, with an absolute line number, of the cell at |x|, |y| in CSS pixels
+     * relative to the canvas, or null if no line is shown there. The column may be past the end of
+     * the line.
+     */
+    public hitTest(x: number, y: number): Cursor {
+      var cell = this.screen.cellFromPoint(x, y);
+      var column = cell.x - this.gutterW;
+      if (cell.y < 0 || cell.y >= this.visibleRows || column < 0 || column >= this.rowWidth) {
+        return null;
+      }
+      var row = (this.y | 0) + cell.y;
+      return new Cursor(this.columnAt(row) + column, this.lineAt(this.rowAt(row)) + this.buffer.evicted);
+    }
+
+    /**
+     * Links in absolute line |line|, found by |linkDetectors|. Lines that aren't visible aren't
+     * searched and have none.
+     */
+    public getLinks(line: number): Link[] {
+      var buffer = this.buffer;
+      var y = line - buffer.evicted;
+      if (!this.isLineOnScreen(y)) {
+        return [];
+      }
+      if (line === this.linksLine && buffer.getLineLength(y) === this.linksLength) {
+        return this.links;
+      }
+      var links = [];
+      this.linkDetectors.forEach(function (detector) {
+        detector.forEachLink(buffer, y, function (column: number, length: number, match: string[]) {
+          for (var i = 0; i < links.length; i++) {
+            if (column < links[i].column + links[i].length && links[i].column < column + length) {
+              return;
+            }
+          }
+          links.push(new Link(detector, line, column, length, match));
+        });
+      });
+      links.sort(function (a, b) {
+        return a.column - b.column;
+      });
+      this.links = links;
+      this.linksLine = line;
+      this.linksLength = buffer.getLineLength(y);
+      return links;
+    }
+
+    /**
+     * Link at |position|, a column and absolute line number, or null.
+     */
+    public getLinkAt(position: Cursor): Link {
+      var links = this.getLinks(position.y);
+      for (var i = 0; i < links.length; i++) {
+        if (position.x >= links[i].column && position.x < links[i].column + links[i].length) {
+          return links[i];
+        }
+      }
+      return null;
     }
 
-    private initializeColorPaletteTexture() {
-      var gl = this.gl;
-      gl.bindTexture(gl.TEXTURE_2D, this.colorPaletteTexture);
-      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
-      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
-      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
-      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
-      var colorPalette = new Uint8Array(256 * 256 * 4);
-      var j = 0;
-      for (var i = 0; i < 256 * 256; i++) {
-        var r = (i >> 11) & 0x1F;
-        var g = (i >>  5) & 0x3F;
-        var b = (i >>  0) & 0x1F;
-        colorPalette[j++] = (r / 32) * 256;
-        colorPalette[j++] = (g / 64) * 256;
-        colorPalette[j++] = (b / 32) * 256;
-        colorPalette[j++] = 255;
+    /**
+     * Whether line |y| is shown in one of the visible rows.
+     */
+    private isLineOnScreen(y: number): boolean {
+      var top = this.y | 0;
+      for (var row = 0, rows = this.visibleRows; row < rows; row++) {
+        if (this.lineAt(this.rowAt(top + row)) === y) {
+          return true;
+        }
       }
-      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, 256, 256, 0, gl.RGBA, gl.UNSIGNED_BYTE, colorPalette);
+      return false;
     }
 
-    private listenForContainerSizeChanges() {
-      var pollInterval = 10;
-      var w = this.containerWidth;
-      var h = this.containerHeight;
-      this.onContainerSizeChanged();
-      var self = this;
-      setInterval(function () {
-        if (w !== self.containerWidth || h !== self.containerHeight) {
-          self.onContainerSizeChanged();
-          w = self.containerWidth;
-          h = self.containerHeight;
-        }
-      }, pollInterval);
+    /**
+     * Moves the rows on screen up by |n|, or down if |n| is negative, along with what they show,
+     * so that only the rows scrolled into view have to be painted.
+     */
+    private scrollRows(n: number) {
+      var rowLines = this.rowLines;
+      var rowColumns = this.rowColumns;
+      var h = rowLines.length;
+      this.screen.scrollRect(0, 0, this.gutterW + this.rowContentW, h, n);
+      for (var k = 0; k < h; k++) {
+        var row = n > 0 ? k : h - 1 - k;
+        var from = row + n;
+        rowLines[row] = from >= 0 && from < h ? rowLines[from] : -1;
+        rowColumns[row] = from >= 0 && from < h ? rowColumns[from] : -2;
+      }
     }
 
-    private onContainerSizeChanged() {
-      var cw = this.containerWidth;
-      var ch = this.containerHeight;
-      var devicePixelRatio = window.devicePixelRatio || 1;
-      var backingStoreRatio = 1;
-      if (devicePixelRatio !== backingStoreRatio) {
-        this.ratio = devicePixelRatio / backingStoreRatio;
-        this.canvas.width = cw * this.ratio;
-        this.canvas.height = ch * this.ratio;
-        this.canvas.style.width = cw + 'px';
-        this.canvas.style.height = ch + 'px';
-      } else {
-        this.ratio = 1;
-        this.canvas.width = cw;
-        this.canvas.height = ch;
+    /**
+     * Paints the rows showing absolute line |line| again at the next update, leaving the others as
+     * they are.
+     */
+    private repaintLine(line: number) {
+      for (var row = 0; row < this.rowLines.length; row++) {
+        if (this.rowLines[row] === line) {
+          this.rowColumns[row] = -2;
+        }
       }
-      this.resize();
+      this.rowsChanged = true;
     }
 
-    private get containerWidth(): number {
-      return this.container.clientWidth;
+    private onMouseUp(event: MouseEvent) {
+      window.removeEventListener("mousemove", this.boundOnMouseMove, false);
+      window.removeEventListener("mouseup", this.boundOnMouseUp, false);
+      var range = this.getSelectionRange();
+      if (range && range[0].y === range[1].y && range[0].x === range[1].x) {
+        this.clearSelection();
+      }
     }
 
-    private get containerHeight(): number {
-      return this.container.clientHeight;
+    private onCopy(event: ClipboardEvent) {
+      if (document.activeElement !== this.screen.canvas || this.screen.active === false ||
+          !this.selectionAnchor) {
+        return;
+      }
+      event.clipboardData.setData("text/plain", this.getSelectionText());
+      event.preventDefault();
     }
 
-    private resize() {
-      this.initializeSpriteSheet();
+    public clearSelection() {
+      this.selectionAnchor = this.selectionFocus = null;
+      this.version = 0;
+    }
 
-      var gl = this.gl;
-      var program = this.program;
+    /**
+     * Selects from column |x0| of line |y0| up to, but not including, column |x1| of line |y1|.
+     */
+    public select(x0: number, y0: number, x1: number, y1: number) {
+      var evicted = this.buffer.evicted;
+      this.selectionAnchor = new Cursor(x0, y0 + evicted);
+      this.selectionFocus = new Cursor(x1, y1 + evicted);
+      this.selectionUnit = SelectionUnit.Character;
+      this.version = 0;
+    }
 
-      var screenW = this.w = this.canvas.width / this.tileW | 0;
-      var screenH = this.h = this.canvas.height / this.tileH | 0;
+    /**
+     * Start and end of the selection in absolute line numbers, ordered and rounded out to the
+     * selection unit. The end column is exclusive. Returns null if nothing is selected.
+     */
+    private getSelectionRange(): Cursor[] {
+      var anchor = this.selectionAnchor;
+      var focus = this.selectionFocus;
+      var buffer = this.buffer;
+      var evicted = buffer.evicted;
+      if (!anchor || buffer.h === 0) {
+        return null;
+      }
+      var last = evicted + buffer.h - 1;
+      var forward = anchor.y < focus.y || (anchor.y === focus.y && anchor.x <= focus.x);
+      var start = new Cursor((forward ? anchor : focus).x, (forward ? anchor : focus).y);
+      var end = new Cursor((forward ? focus : anchor).x, (forward ? focus : anchor).y);
+      if (end.y < evicted || start.y > last) {
+        return null;
+      }
+      if (start.y < evicted) {
+        start.x = 0;
+        start.y = evicted;
+      }
+      end.y = Math.min(end.y, last);
+      var startLine = start.y - evicted;
+      var endLine = end.y - evicted;
+      var startLength = buffer.getLineLength(startLine);
+      var endLength = buffer.getLineLength(endLine);
+      start.x = Math.min(start.x, startLength);
+      end.x = Math.min(end.x, endLength);
+      if (this.selectionUnit === SelectionUnit.Word) {
+        // Lines are read one after the other, |getLine| reuses its result.
+        var line = buffer.getLine(startLine);
+        var cells = line.cells;
+        var s = line.start;
+        if (start.x < startLength && isWordCharCode(cells[s + start.x])) {
+          while (start.x > 0 && isWordCharCode(cells[s + start.x - 1])) {
+            start.x --;
+          }
+        }
+        line = buffer.getLine(endLine);
+        cells = line.cells;
+        var e = line.start;
+        if (end.x < endLength) {
+          if (isWordCharCode(cells[e + end.x])) {
+            while (end.x < endLength && isWordCharCode(cells[e + end.x])) {
+              end.x ++;
+            }
+          } else {
+            end.x ++;
+          }
+        }
+      } else if (this.selectionUnit === SelectionUnit.Line) {
+        start.x = 0;
+        end.x = endLength;
+      }
+      return [start, end];
+    }
 
-      gl.viewport(0, 0, this.canvas.width, this.canvas.height);
-      this.screenBuffer = new Uint8Array(screenW * screenH * 4);
-      this.screenBufferView = new Uint32Array(this.screenBuffer.buffer);
+    /**
+     * Buffer lines spanned by the selection as a [start, end) pair, e.g. to export them. Returns
+     * null if nothing is selected.
+     */
+    public getSelectedLineRange(): number[] {
+      var range = this.getSelectionRange();
+      if (!range) {
+        return null;
+      }
+      var evicted = this.buffer.evicted;
+      return [range[0].y - evicted, range[1].y - evicted + 1];
+    }
 
-      gl.bindTexture(gl.TEXTURE_2D, this.tileMapTexture);
-      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
-      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
-      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
-      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
-      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, screenW, screenH, 0, gl.RGBA, gl.UNSIGNED_BYTE, this.screenBuffer);
+    /**
+     * Selected text with lines separated by new lines, filtered out lines are skipped.
+     */
+    public getSelectionText(): string {
+      var range = this.getSelectionRange();
+      if (!range) {
+        return "";
+      }
+      var start = range[0];
+      var end = range[1];
+      var evicted = this.buffer.evicted;
+      var lines = [];
+      for (var line = start.y; line <= end.y; line++) {
+        if (!this.isLineVisible(line)) {
+          continue;
+        }
+        lines.push(this.buffer.getLineText(line - evicted, line === start.y ? start.x : 0, line === end.y ? end.x : Infinity));
+      }
+      return lines.join("\n");
+    }
 
-      var matrix = create2DProjection(this.canvas.width, this.canvas.height, 2000);
-      gl.uniformMatrix4fv(this.program.uniforms.uTransformMatrix3D.location, false, matrix);
+    /**
+     * Copies the selected text using the asynchronous Clipboard API, if available. Copying with the
+     * keyboard works without it when the canvas has focus.
+     */
+    public copySelection(): boolean {
+      var text = this.getSelectionText();
+      if (!text || !("clipboard" in navigator)) {
+        return false;
+      }
+      navigator.clipboard.writeText(text);
+      return true;
+    }
 
-      var w = this.canvas.width;
-      var h = this.canvas.height;
+    private onMouseWheel(event: any) {
+      if (event.ctrlKey && !event.altKey && !event.shiftKey && this.isMouseOver(event)) {
+        event.preventDefault();
+        if (event.deltaY) {
+          this.zoom(event.deltaY < 0 ? 1 : -1);
+        }
+        return;
+      }
+      if (!event.altKey && !event.ctrlKey && !event.shiftKey && this.isMouseOver(event)) {
+        event.preventDefault();
 
-      var f32 = new Float32Array([
-        // x, y, u, v
-        0, 0, 0, 0,
-        w, 0, 1, 0,
-        w, h, 1, 1,
+        var deltaX = event.deltaX;
+        var deltaY = event.deltaY;
 
-        0, 0, 0, 0,
-        w, h, 1, 1,
-        0, h, 0, 1
-      ]);
+        if (event.deltaMode === WheelEvent.DOM_DELTA_PIXEL) {
+          deltaX /= 40;
+          deltaY /= 40;
+        } else if (event.deltaMode === WheelEvent.DOM_DELTA_LINE) {
+          deltaX *= 10;
+          deltaY *= 10;
+        }
 
-      gl.bindBuffer(gl.ARRAY_BUFFER, this.vertexBuffer);
-      gl.bufferData(gl.ARRAY_BUFFER, f32, gl.DYNAMIC_DRAW);
-      gl.enableVertexAttribArray(program.attributes.aPosition.location);
-      gl.enableVertexAttribArray(program.attributes.aCoordinate.location);
+        var x = clamp(deltaX, -1, 1);
+        var y = clamp(deltaY, -1, 1);
 
-      gl.vertexAttribPointer(program.attributes.aPosition.location, 2, gl.FLOAT, false, 16, 0);
-      gl.vertexAttribPointer(program.attributes.aCoordinate.location, 2, gl.FLOAT, false, 16, 8);
+        if (event.metaKey) {
+          x *= 10;
+        }
 
-      gl.uniform2f(program.uniforms.uTileSize.location, this.tileW / this.spriteCanvas.width, this.tileH / this.spriteCanvas.height);
-      gl.uniform2f(program.uniforms.uScaledTileSize.location, 1 / screenW, 1 / screenH);
+        if (event.metaKey) {
+          y *= 100;
+        }
 
-      this.cursor.x = this.cursor.y = 0;
+        this.scroll(x, y);
+        // The text moved under the mouse, find the link it's over now.
+        this.onHoverMouseMove(event);
+      }
     }
 
-    private initializeSpriteSheet() {
-      var fontSize = this.fontSize * this.ratio;
-      this.spriteCanvas = document.createElement("canvas");
-      var context = this.spriteCanvas.getContext("2d");
+    /**
+     * Scrolls with the arrow keys, PageUp and PageDown, Home and End or g and G to jump to the top
+     * and bottom. Jumping to the bottom turns on following. z folds or unfolds the group of the
+     * selection, or of the top line, and Z unfolds all groups.
+     */
+    private onKeyDown(event: KeyboardEvent) {
+      if (event.altKey || this.screen.active === false) {
+        return;
+      }
+      if (event.ctrlKey || event.metaKey) {
+        if (event.key === "+" || event.key === "=") {
+          this.zoom(1);
+        } else if (event.key === "-") {
+          this.zoom(-1);
+        } else {
+          return;
+        }
+        event.preventDefault();
+        return;
+      }
+      var page = Math.max(1, this.contentH - 1);
+      switch (event.key) {
+        case "ArrowUp":
+          this.scroll(0, -1);
+          break;
+        case "ArrowDown":
+          this.scroll(0, 1);
+          break;
+        case "ArrowLeft":
+          this.scroll(-1, 0);
+          break;
+        case "ArrowRight":
+          this.scroll(1, 0);
+          break;
+        case "PageUp":
+          this.scroll(0, -page);
+          break;
+        case "PageDown":
+          this.scroll(0, page);
+          break;
+        case "Home":
+        case "g":
+          this.scrollToTop();
+          break;
+        case "End":
+        case "G":
+          this.scrollToBottom();
+          break;
+        case "z":
+          this.toggleGroup(this.selectionFocus ? this.selectionFocus.y : this.getTopLine());
+          break;
+        case "Z":
+          this.unfoldAllGroups();
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    }
 
-      this.spriteCanvas.width = 1024;
-      this.spriteCanvas.height = 256;
-      context.fillStyle = "#000000";
-      context.fillRect(0, 0, this.spriteCanvas.width, this.spriteCanvas.height);
-      context.clearRect(0, 0, this.spriteCanvas.width, this.spriteCanvas.height);
-      context.fillStyle = "white";
-      context.font = fontSize + 'px Input Mono Condensed, Consolas, Courier, monospace';
-      context.textBaseline = "bottom";
+    public scroll(x: number, y: number) {
+      this.y = clamp(this.y + y, 0, this.rows - this.contentH);
+      this.x = this.wrap ? 0 : clamp(this.x + x, 0, this.buffer.w - this.contentW);
+      if (y < 0) {
+        this.follow = false;
+      } else if (y > 0 && this.y >= this.rows - this.contentH) {
+        this.follow = true;
+      }
+      // Rows still shown are moved rather than painted again.
+      this.rowsChanged = true;
+    }
 
-      var metrics = context.measureText("A");
-      var tileW = this.tileW = Math.ceil(metrics.width);
-      var hPadding = 4 * this.ratio;
-      var tileH = this.tileH = fontSize + hPadding;
-      var tileColumns = this.tileColumns = this.spriteCanvas.width / tileW | 0;
-      var j = 0;
-      for (var i = 0; i < 256; i ++) {
-        var x = (j % tileColumns) | 0;
-        var y = (j / tileColumns) | 0;
-        var c = String.fromCharCode(i)
-        context.fillText(c, x * tileW, fontSize + hPadding + y * tileH);
-        j ++;
+    /**
+     * Makes the screen's font |delta| pixels larger, or smaller, keeping the line at the top of the
+     * viewport in place. Zooming a pane zooms the whole screen.
+     */
+    public zoom(delta: number) {
+      var screen = this.screen;
+      if (!screen.setFont) {
+        return;
+      }
+      var size = clamp(screen.getFont().size + delta, View.minFontSize, View.maxFontSize);
+      if (this.rows > 0 && !this.follow) {
+        this.anchorLine = this.getTopLine();
       }
+      screen.setFont({ size: size });
+    }
 
-      var gl = this.gl;
-      gl.bindTexture(gl.TEXTURE_2D, this.tileTexture);
-      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
-      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
-      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
-      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
-      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, this.spriteCanvas);
-      // this.container.appendChild(this.spriteCanvas);
+    public scrollToTop() {
+      this.follow = false;
+      this.x = 0;
+      this.y = 0;
+      this.version = 0;
     }
 
-    private uploadScreenTexture() {
-      var gl = this.gl;
-      gl.bindTexture(gl.TEXTURE_2D, this.tileMapTexture);
-      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, this.w, this.h, 0, gl.RGBA, gl.UNSIGNED_BYTE, this.screenBuffer);
+    /**
+     * Scrolls to the bottom and follows new lines, like the End and G keys.
+     */
+    public scrollToBottom() {
+      this.setFollow(true);
     }
 
-    private render() {
-      var gl = this.gl;
-      var program = this.program;
+    /**
+     * Pins the viewport to the bottom as lines are added, or leaves it where it is.
+     */
+    public setFollow(follow: boolean) {
+      this.follow = follow;
+      if (follow) {
+        this.x = 0;
+      }
+      this.version = 0;
+    }
 
-      gl.activeTexture(gl.TEXTURE0);
-      gl.bindTexture(gl.TEXTURE_2D, this.tileTexture);
-      gl.uniform1i(program.uniforms.uTileSampler.location, 0);
+    public isFollowing(): boolean {
+      return this.follow;
+    }
 
-      gl.activeTexture(gl.TEXTURE0 + 1);
-      gl.bindTexture(gl.TEXTURE_2D, this.tileMapTexture);
-      gl.uniform1i(program.uniforms.uTileMapSampler.location, 1);
+    /**
+     * Highlights all matches of |query| and scrolls to the first match at or below the top of the
+     * viewport. Large buffers are searched over several frames, returns false if no match was
+     * found yet, the view scrolls to the first one once it is.
+     */
+    public search(query: string | RegExp, caseSensitive: boolean = true): boolean {
+      this.searchResults = new Search(query, caseSensitive);
+      this.searchResults.update(this.buffer, View.searchBudget);
+      var found = this.findNext();
+      this.findPending = !found && !this.searchResults.complete;
+      this.version = 0;
+      return found;
+    }
 
-      if (program.uniforms.uColorPaletteSampler) {
-        gl.activeTexture(gl.TEXTURE0 + 2);
-        gl.bindTexture(gl.TEXTURE_2D, this.colorPaletteTexture);
-        gl.uniform1i(program.uniforms.uColorPaletteSampler.location, 2);
-      }
+    public clearSearch() {
+      this.searchResults = null;
+      this.findPending = false;
+      this.version = 0;
+    }
 
-      gl.uniform1f(program.uniforms.uTime.location, performance.now() / 1000);
+    /**
+     * Continues a search that hasn't gone through all lines yet, scrolling to the first match if
+     * it's still pending.
+     */
+    private continueSearch() {
+      var search = this.searchResults;
+      if (search.update(this.buffer, View.searchBudget)) {
+        // Matches may be in lines that are already painted.
+        this.version = 0;
+      }
+      if (this.findPending && (this.findNext() || search.complete)) {
+        this.findPending = false;
+      }
+    }
 
-      gl.clearColor(0x33 / 256, 0x33 / 256, 0x33 / 256, 1.0);
+    /**
+     * Scrolls to the next match, wrapping around at the end. Returns false if there are no matches.
+     */
+    public findNext(): boolean {
+      return this.findMatch(1);
+    }
 
-      gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
-      gl.disable(gl.DEPTH_TEST);
+    /**
+     * Scrolls to the previous match, wrapping around at the start. Returns false if there are no
+     * matches.
+     */
+    public findPrevious(): boolean {
+      return this.findMatch(-1);
+    }
 
-      gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
-      gl.enable(gl.BLEND);
+    /**
+     * Steps the current match in |direction|, skipping matches in filtered out lines, and scrolls
+     * to it. Without a current match, the first step is relative to the top of the viewport.
+     */
+    private findMatch(direction: number): boolean {
+      var search = this.searchResults;
+      if (!search || search.count === 0) {
+        return false;
+      }
+      var count = search.count;
+      var k = search.current;
+      if (k < 0) {
+        k = search.indexOf(this.getTopLine());
+        if (direction > 0) {
+          k --;
+        }
+      }
+      for (var n = 0; n < count; n++) {
+        k = (k + direction + count) % count;
+        if (this.isLineVisible(search.matches[k * 3])) {
+          search.current = k;
+          this.revealMatch(k);
+          return true;
+        }
+      }
+      return false;
+    }
 
-      gl.drawArrays(gl.TRIANGLES, 0, 6);
+    private revealMatch(k: number) {
+      var matches = this.searchResults.matches;
+      var w = this.contentW;
+      var h = this.contentH;
+      var column = matches[k * 3 + 1];
+      var length = matches[k * 3 + 2];
+      var row = this.rowOf(this.shownIndexOf(matches[k * 3] - this.buffer.evicted), column);
+      if (row < this.y || row >= this.y + h) {
+        this.y = clamp(row - (h >> 1), 0, Math.max(0, this.rows - h));
+        this.follow = false;
+      }
+      if (!this.wrap && (column < this.x || column + length > this.x + w)) {
+        this.x = clamp(column - (w >> 1), 0, Math.max(0, this.buffer.w - w));
+      }
+      this.version = 0;
     }
 
-    private enterRenderLoop() {
-      var self = this;
-      var gl = this.gl;
-      var program = this.program;
+    /**
+     * Number of rows visible on screen.
+     */
+    private get visibleRows(): number {
+      return clamp(this.rows - (this.y | 0), 0, this.contentH);
+    }
 
-      function tick() {
-        if (self.dirty) {
-          self.uploadScreenTexture();
-          self.render();
-          self.dirty = false;
-        }
-        requestAnimationFrame(tick);
+    /**
+     * Colors columns |s| up to |e| of the line shown in screen row |row|, clipped to the row.
+     */
+    private fillRowColor(row: number, s: number, e: number, color: number) {
+      var x = this.columnAt((this.y | 0) + row);
+      s = Math.max(s, x);
+      e = Math.min(e, x + this.rowWidth);
+      if (s < e) {
+        this.screen.fillColor(s - x + this.gutterW, row, e - s, color);
       }
+    }
 
-      requestAnimationFrame(tick);
+    /**
+     * Colors the search matches of absolute line |line|, shown in screen row |row|.
+     */
+    private renderMatches(line: number, row: number) {
+      var search = this.searchResults;
+      var matches = search.matches;
+      for (var k = search.indexOf(line); k < search.count && matches[k * 3] === line; k++) {
+        var color = k === search.current ? this.currentMatchColor : this.matchColor;
+        var column = matches[k * 3 + 1];
+        this.fillRowColor(row, column, column + matches[k * 3 + 2], color);
+      }
     }
 
-    public move(x: number, y: number) {
-      this.cursor.x = x;
-      this.cursor.y = y;
+    /**
+     * Colors the selected part of line |y|, shown in screen row |row|, |range| is the selection
+     * range.
+     */
+    private renderSelection(y: number, row: number, range: Cursor[]) {
+      var buffer = this.buffer;
+      var start = range[0];
+      var end = range[1];
+      var line = y + buffer.evicted;
+      if (line < start.y || line > end.y) {
+        return;
+      }
+      var s = line === start.y ? start.x : 0;
+      var e = line === end.y ? end.x : buffer.getLineLength(y);
+      this.fillRowColor(row, s, e, this.selectionColor);
     }
 
-    public next() {
-      this.cursor.x ++;
-      if (this.cursor.x > this.w && this.wrap) {
-        this.cursor.x = 0;
-        this.cursor.y ++;
+    /**
+     * Paints line |y| from column |x| into screen row |row|, with its gutter, fold marker, wrap
+     * indicator, search matches and selection.
+     */
+    private renderRow(y: number, x: number, row: number, range: Cursor[]) {
+      var screen = this.screen;
+      var width = this.rowWidth;
+      var left = this.gutterW;
+      screen.writeBufferLine(this.buffer, y, x, row, left, width);
+      this.renderFoldMarker(y, x, row, left, width);
+      if (this.wrap && x + width < this.buffer.getLineLength(y)) {
+        screen.putChar(this.wrapIndicator, left + width, row, this.wrapIndicatorColor);
+      }
+      if (!this.wrap || x === 0) {
+        // Continuations of wrapped lines have no gutter.
+        this.renderGutter(y, row);
+      }
+      if (this.searchResults) {
+        this.renderMatches(y + this.buffer.evicted, row);
+      }
+      if (range) {
+        this.renderSelection(y, row, range);
       }
+      var link = this.hoveredLink;
+      if (link && link.line === y + this.buffer.evicted) {
+        this.renderLinkUnderline(link, x, row);
+      }
+    }
 
-      if (this.cursor.y > this.h) {
-        this.cursor.x = 0;
-        this.cursor.y = 0;
-        this.scroll(1);
+    /**
+     * Underlines the cells of |link| shown in screen row |row| from column |x|, on top of the
+     * selection and match highlights.
+     */
+    private renderLinkUnderline(link: Link, x: number, row: number) {
+      var s = Math.max(link.column, x);
+      var e = Math.min(link.column + link.length, x + this.rowWidth);
+      if (e > s) {
+        this.screen.addAttributes(this.gutterW + s - x, row, e - s, Attribute.Underline);
       }
     }
 
-    public nextLine() {
-      this.cursor.y ++;
-      this.cursor.x = 0;
-      if (this.cursor.y >= this.h) {
-        this.cursor.y --;
-        this.scroll(1);
+    /**
+     * Brings the screen up to date with the buffer and the view. Unless |full| is true, rows that
+     * show what they showed last time are left as they are, e.g. while following, only new lines
+     * and the rows that scrolled are painted.
+     */
+    private render(full: boolean = true) {
+      var buffer = this.buffer;
+      var dropped = buffer.evicted - this.evicted;
+      this.evicted = buffer.evicted;
+      if (dropped > 0 && this.foldedGroupCount) {
+        this.dropFoldedGroups(buffer.evicted);
+      }
+      if (this.filter) {
+        dropped = this.filter.update(buffer, View.filterBudget);
+      }
+      if (this.wrap && dropped > 0) {
+        dropped = this.dropWrapLines(dropped);
+      }
+      this.updateWrapIndex();
+      if (dropped > 0) {
+        // Keep showing the same lines, they moved up by the number of dropped rows.
+        this.y = Math.max(0, this.y - dropped);
+        this.rowTop -= dropped;
+      }
+      if (this.anchorLine >= 0 && (!this.filter || this.filter.line > this.anchorLine || this.filter.complete)) {
+        var n = this.shownIndexOf(this.anchorLine - buffer.evicted);
+        this.y = clamp(this.rowOf(n, 0), 0, Math.max(0, this.rows - this.contentH));
+        this.anchorLine = -1;
+      }
+      if (this.follow) {
+        this.y = Math.max(0, this.rows - this.contentH);
+      }
+      if (this.updateGutterWidth()) {
+        // The text width changed, wrapped lines take a different number of rows.
+        this.updateWrapIndex();
+        if (this.follow) {
+          this.y = Math.max(0, this.rows - this.contentH);
+        }
+      }
+      var screen = this.screen;
+      var top = this.y | 0;
+      var h = this.contentH;
+      var contentW = this.contentW;
+      if (this.lineNumberW !== this.rowLineNumberW || this.timeW !== this.rowTimeW ||
+          this.deltaTimeW !== this.rowDeltaTimeW || contentW !== this.rowContentW ||
+          this.rowLines.length !== h) {
+        this.rowLineNumberW = this.lineNumberW;
+        this.rowTimeW = this.timeW;
+        this.rowDeltaTimeW = this.deltaTimeW;
+        this.rowContentW = contentW;
+        this.rowLines = new Float64Array(h);
+        this.rowColumns = new Int32Array(h);
+        full = true;
       }
+      this.screenW = screen.w;
+      this.screenH = screen.h;
+      this.screenGeneration = screen.generation;
+      if (full) {
+        screen.clear();
+      } else if (top !== this.rowTop && Math.abs(top - this.rowTop) < h) {
+        this.scrollRows(top - this.rowTop);
+      }
+      this.rowTop = top;
+      if (this.searchResults) {
+        this.searchResults.update(buffer, View.searchBudget);
+      }
+      this.rowsChanged = false;
+      var range = this.getSelectionRange();
+      var rowLines = this.rowLines;
+      var rowColumns = this.rowColumns;
+      var rows = this.visibleRows;
+      var painted = 0;
+      for (var row = 0; row < h; row++) {
+        var y = row < rows ? this.lineAt(this.rowAt(top + row)) : -1;
+        var x = row < rows ? this.columnAt(top + row) : -1;
+        var line = y < 0 ? -1 : buffer.evicted + y;
+        if (!full && line === rowLines[row] && x === rowColumns[row]) {
+          continue;
+        }
+        if (!full) {
+          screen.clearRect(0, row, this.gutterW + this.contentW, 1);
+        }
+        // The last line may still grow, its rows are painted again next time.
+        rowLines[row] = y < buffer.h ? line : -1;
+        rowColumns[row] = x;
+        if (y >= 0) {
+          this.renderRow(y, x, row, range);
+          painted++;
+        }
+      }
+      if (screen.stats) {
+        screen.stats.rowsPainted += painted;
+      }
+      screen.invalidate();
+      this.renderFollowLabel();
+      this.renderScrollbars();
     }
 
-    public invalidate() {
-      this.dirty = true;
+    /**
+     * Shows |columns|, a combination of |GutterColumn| flags, in the gutter, or no gutter if 0.
+     */
+    public setGutter(columns: number) {
+      this.gutterColumns = columns;
+      this.version = 0;
     }
 
-    public clear() {
-      var view = this.screenBufferView;
-      for (var i = 0; i < view.length; i++) {
-        view[i] = 0;
+    /**
+     * Sizes the gutter columns for the visible rows, returns true if the gutter width changed.
+     */
+    private updateGutterWidth(): boolean {
+      var columns = this.gutterColumns;
+      var times = this.buffer.times;
+      var evicted = this.buffer.evicted;
+      var top = this.y | 0;
+      var bottom = top + this.visibleRows;
+      var first = bottom > top ? evicted + this.lineAt(this.rowAt(top)) : -1;
+      var last = bottom > top ? evicted + this.lineAt(this.rowAt(bottom - 1)) : -1;
+      if (columns !== this.measuredGutterColumns || this.filter !== this.measuredGutterFilter ||
+          first !== this.measuredFirstLine || last !== this.measuredLastLine) {
+        this.measuredGutterColumns = columns;
+        this.measuredGutterFilter = this.filter;
+        this.measuredFirstLine = first;
+        this.measuredLastLine = last;
+        this.lineNumberW = this.timeW = this.deltaTimeW = 0;
+        if (last >= 0) {
+          if (columns & GutterColumn.LineNumber) {
+            this.lineNumberW = countDigits(last + 1);
+          }
+          if ((columns & GutterColumn.Time) && times) {
+            // Times are shown in seconds, deltas in milliseconds, both with 3 decimals.
+            this.timeW = thousandthsWidth(Math.round(times[last - evicted]));
+          }
+          if ((columns & GutterColumn.DeltaTime) && times) {
+            for (var row = top; row < bottom; row++) {
+              var y = this.lineAt(this.rowAt(row));
+              if (y > 0) {
+                this.deltaTimeW = Math.max(this.deltaTimeW, thousandthsWidth(Math.round((times[y] - times[y - 1]) * 1000)) + 1);
+              }
+            }
+          }
+        }
+      }
+      var w = (this.lineNumberW ? this.lineNumberW + 1 : 0) + (this.timeW ? this.timeW + 1 : 0) +
+              (this.deltaTimeW ? this.deltaTimeW + 1 : 0);
+      w = Math.min(w, Math.max(0, this.screen.w - 1));
+      if (w === this.gutterW) {
+        return false;
       }
+      this.gutterW = w;
+      return true;
     }
 
-    public scroll(n) {
-      var h = this.h;
-      var w = this.w;
-      var view = this.screenBufferView;
-      for (var y = 0; y < h; y++) {
-        if (y >= h - n) {
-          for (var x = 0; x < w; x++) {
-            view[y * w + x] = 0;
-          }
+    /**
+     * Puts the gutter columns of line |y| in screen row |row|.
+     */
+    private renderGutter(y: number, row: number) {
+      if (this.gutterW === 0) {
+        return;
+      }
+      var times = this.buffer.times;
+      var x = 0;
+      if (this.lineNumberW) {
+        x = this.renderGutterNumber(this.buffer.evicted + y + 1, false, 0, x, this.lineNumberW, row);
+      }
+      if (this.timeW) {
+        x = this.renderGutterNumber(Math.round(times[y]), true, 0, x, this.timeW, row);
+      }
+      if (this.deltaTimeW) {
+        if (y > 0) {
+          var delta = Math.round((times[y] - times[y - 1]) * 1000);
+          var sign = delta < 0 ? CharacterCode.Minus : CharacterCode.Plus;
+          x = this.renderGutterNumber(Math.abs(delta), true, sign, x, this.deltaTimeW, row);
         } else {
-          for (var x = 0; x < w; x++) {
-            view[y * w + x] = view[(y + n) * w + x];
-          }
+          x += this.deltaTimeW + 1;
         }
       }
     }
 
-    public setColor(r: number, g: number, b: number) {
-      r = clamp(r, 0, 255);
-      g = clamp(g, 0, 255);
-      b = clamp(b, 0, 255);
-      this.color =
-        ((r / 256 * 32) & 0x1F) << 11 |
-        ((g / 256 * 64) & 0x3F) <<  5 |
-        ((b / 256 * 32) & 0x1F) <<  0;
+    /**
+     * Puts the non-negative integer |n| right aligned in the |width| columns starting at |x|, as
+     * thousandths with 3 decimals if |decimals|, preceded by |sign| unless it is 0. Digits are put
+     * directly, without formatting a string. Returns the column after them and the space that
+     * follows.
+     */
+    private renderGutterNumber(n: number, decimals: boolean, sign: number, x: number, width: number,
+                               row: number): number {
+      var right = Math.min(x + width, this.gutterW);
+      var column = x + width - 1;
+      var k = 0;
+      do {
+        var c;
+        if (decimals && k === 3) {
+          c = CharacterCode.Period;
+        } else {
+          c = CharacterCode.Zero + n % 10;
+          n = Math.floor(n / 10);
+        }
+        if (column < right) {
+          this.screen.putChar(c, column, row, this.gutterColor);
+        }
+        column --;
+        k ++;
+      } while (n > 0 || (decimals && k < 5));
+      if (sign && column < right) {
+        this.screen.putChar(sign, column, row, this.gutterColor);
+      }
+      return x + width + 1;
     }
 
-    public writeCharCode(c: number) {
-      this.invalidate();
+    /**
+     * Scrolls absolute line number |line|, as shown in the gutter, or the next shown line to the
+     * top.
+     */
+    public scrollToLine(line: number) {
+      var evicted = this.buffer.evicted;
+      this.anchorLine = clamp(line - 1, evicted, evicted + Math.max(0, this.buffer.h - 1));
+      this.follow = false;
+      this.version = 0;
+    }
 
-      if (c === CharacterCode.NewLine) {
-        this.nextLine();
-        return;
+    /**
+     * Scrolls the first line completed at or after |time| to the top.
+     */
+    public scrollToTime(time: number) {
+      var y = this.buffer.findLineAtTime(time);
+      if (y >= 0) {
+        this.scrollToLine(this.buffer.evicted + y + 1);
       }
+    }
 
-      var cursor = this.cursor;
-      var w = this.w;
-      var h = this.h;
-      if (cursor.x > w || cursor.x < 0 ||
-          cursor.y > h || cursor.y < 0) {
+    private renderFollowLabel() {
+      var label = this.follow ? this.followLabel : this.pausedLabel;
+      var color = this.follow ? this.followLabelColor : this.pausedLabelColor;
+      var screen = this.screen;
+      var x = this.gutterW + this.contentW - label.length;
+      var y = this.contentH - 1;
+      if (!label || x < 0 || y < 0 || (!this.follow && (this.y | 0) + this.contentH >= this.rows)) {
         return;
       }
-      var buffer = this.screenBuffer;
-      var i = (this.w * cursor.y + cursor.x) * 4;
-
-      var x = (c % this.tileColumns) | 0;
-      var y = (c / this.tileColumns) | 0;
+      var style = packStyle(0, Attribute.Inverse);
+      for (var i = 0; i < label.length; i++) {
+        screen.putChar(label.charCodeAt(i), x + i, y, color, style);
+      }
+      // The label covers part of the row, paint it again next time in case the label changes or
+      // the row is scrolled.
+      this.rowColumns[y] = -2;
+    }
 
-      buffer[i ++] = x;
-      buffer[i ++] = y;
-      buffer[i ++] = this.color;
-      buffer[i ++] = this.color >> 8;
+    private renderScrollbars() {
+      var screen = this.screen;
+      var w = this.contentW;
+      var h = this.contentH;
+      var left = this.gutterW;
+      var column = left + w;
+      if (this.showMinimap) {
+        this.renderMinimap(column, h);
+        column += this.minimapWidth;
+      }
+      if (!this.showScrollbar) {
+        return;
+      }
+      var track = packStyle(this.scrollbarTrackColor, Attribute.Background);
+      var thumb = packStyle(this.scrollbarThumbColor, Attribute.Background);
+      var size = getThumbSize(h, this.rows, h);
+      var start = getThumbStart(h, this.rows, h, this.y | 0);
+      for (var row = 0; row < screen.h; row++) {
+        var style = row >= start && row < start + size ? thumb : track;
+        screen.putChar(CharacterCode.Space, column, row, 0, style);
+      }
+      if (this.hasHorizontalScrollbar && h < screen.h) {
+        size = getThumbSize(w, this.buffer.w, w);
+        start = getThumbStart(w, this.buffer.w, w, this.x | 0);
+        for (var x = 0; x < left + w; x++) {
+          var style = x - left >= start && x - left < start + size ? thumb : track;
+          screen.putChar(CharacterCode.Space, x, h, 0, style);
+        }
+      }
+    }
 
-      this.next();
+    private renderMinimap(column: number, h: number) {
+      if (this.minimapVersion !== this.buffer.version || this.minimapRows !== this.rows ||
+          this.minimapDensities.length !== h) {
+        this.updateMinimap(h);
+      }
+      var screen = this.screen;
+      for (var row = 0; row < h; row++) {
+        var glyph = densityGlyphs[this.minimapDensities[row]];
+        for (var x = 0; x < this.minimapWidth; x++) {
+          screen.putChar(glyph, column + x, row, this.minimapColors[row], this.minimapStyles[row]);
+        }
+      }
     }
 
-    public writeText(s: string) {
-      for (var i = 0; i < s.length; i++) {
-        this.writeCharCode(s.charCodeAt(i));
+    /**
+     * Samples up to |minimapSamples| lines for each of the |h| minimap rows. A cell is colored if
+     * it has a background or a color other than the theme's default foreground.
+     */
+    private updateMinimap(h: number) {
+      if (this.minimapDensities.length !== h) {
+        this.minimapColors = new Uint16Array(h);
+        this.minimapStyles = new Uint32Array(h);
+        this.minimapDensities = new Uint8Array(h);
+      }
+      var buffer = this.buffer;
+      var rows = this.rows;
+      for (var row = 0; row < h; row++) {
+        var s = Math.floor(row * rows / h);
+        var e = Math.floor((row + 1) * rows / h);
+        var step = Math.max(1, Math.floor((e - s) / this.minimapSamples));
+        var samples = 0;
+        var colored = 0;
+        var best = 0;
+        for (var r = s; r < e; r += step) {
+          var y = this.lineAt(this.rowAt(r));
+          var count = 0;
+          var line = buffer.getLine(y);
+          var colors = line.colors;
+          var styles = line.styles;
+          var p = line.start;
+          var q = line.end;
+          var color = 0;
+          var style = 0;
+          for (; p < q; p++) {
+            var attributes = styleAttributes(styles[p]);
+            if (attributes & Attribute.Background) {
+              color = styleBackground(styles[p]);
+              style = attributes & Attribute.IndexedBackground ? packStyle(0, Attribute.IndexedForeground) : 0;
+            } else if (!(attributes & Attribute.IndexedForeground) || colors[p] !== PaletteIndex.DefaultForeground) {
+              color = colors[p];
+              style = attributes & Attribute.IndexedForeground ? packStyle(0, Attribute.IndexedForeground) : 0;
+            } else {
+              continue;
+            }
+            count ++;
+          }
+          samples ++;
+          if (count > 0) {
+            colored ++;
+          }
+          if (count > best) {
+            best = count;
+            this.minimapColors[row] = color;
+            this.minimapStyles[row] = style;
+          }
+        }
+        this.minimapDensities[row] = samples ? Math.ceil(colored * 4 / samples) : 0;
       }
+      this.minimapVersion = buffer.version;
+      this.minimapRows = rows;
     }
 
-    private putChar(c: number, x: number, y: number, color: number) {
-      var i = (y * this.w + x) * 4;
-      var buffer = this.screenBuffer;
+    /**
+     * Scrollbar part at |cell|, or None if it's in the text.
+     */
+    private getScrollbarPartAt(cell: Cursor): ScrollbarPart {
+      var left = this.gutterW;
+      var right = left + this.contentW;
+      var h = this.contentH;
+      if (this.showMinimap && cell.x >= right && cell.x < right + this.minimapWidth && cell.y < h) {
+        return ScrollbarPart.Minimap;
+      }
+      if (this.showScrollbar && cell.x >= right + (this.showMinimap ? this.minimapWidth : 0)) {
+        return ScrollbarPart.Vertical;
+      }
+      if (this.hasHorizontalScrollbar && cell.y >= h && cell.x >= left && cell.x < right) {
+        return ScrollbarPart.Horizontal;
+      }
+      return ScrollbarPart.None;
+    }
 
-      buffer[i++] = (c % this.tileColumns) | 0;
-      buffer[i++] = (c / this.tileColumns) | 0;
-      buffer[i++] = color;
-      buffer[i++] = color >> 8;
+    /**
+     * Clicking a scrollbar track pages towards the click, clicking the thumb or the minimap starts
+     * dragging. Returns false if |cell| is in the text.
+     */
+    private onScrollbarMouseDown(cell: Cursor): boolean {
+      var part = this.getScrollbarPartAt(cell);
+      var w = this.contentW;
+      var h = this.contentH;
+      if (part === ScrollbarPart.None) {
+        return false;
+      }
+      if (part === ScrollbarPart.Vertical) {
+        var start = getThumbStart(h, this.rows, h, this.y | 0);
+        var size = getThumbSize(h, this.rows, h);
+        if (cell.y < start || cell.y >= start + size) {
+          this.scroll(0, (cell.y < start ? -1 : 1) * Math.max(1, h - 1));
+          return true;
+        }
+        this.dragOffset = cell.y - start;
+      } else if (part === ScrollbarPart.Horizontal) {
+        var x = cell.x - this.gutterW;
+        var start = getThumbStart(w, this.buffer.w, w, this.x | 0);
+        var size = getThumbSize(w, this.buffer.w, w);
+        if (x < start || x >= start + size) {
+          this.scroll((x < start ? -1 : 1) * Math.max(1, w - 1), 0);
+          return true;
+        }
+        this.dragOffset = x - start;
+      } else {
+        this.scrollToMinimapRow(cell.y);
+      }
+      this.dragPart = part;
+      window.addEventListener("mousemove", this.boundOnScrollbarMouseMove, false);
+      window.addEventListener("mouseup", this.boundOnScrollbarMouseUp, false);
+      return true;
     }
 
-    public writeBuffer(buffer: Buffer, x: number, y: number) {
-      var h = this.h, w = this.w;
+    private onScrollbarMouseMove(event: MouseEvent) {
+      var point = getTargetMousePos(event, this.screen.canvas);
+      var cell = this.screen.cellFromPoint(point.x, point.y);
+      var w = this.contentW;
+      var h = this.contentH;
+      if (this.dragPart === ScrollbarPart.Vertical) {
+        var y = getThumbPosition(h, this.rows, h, cell.y - this.dragOffset);
+        this.scroll(0, y - (this.y | 0));
+      } else if (this.dragPart === ScrollbarPart.Horizontal) {
+        var x = getThumbPosition(w, this.buffer.w, w, cell.x - this.gutterW - this.dragOffset);
+        this.scroll(x - (this.x | 0), 0);
+      } else if (this.dragPart === ScrollbarPart.Minimap) {
+        this.scrollToMinimapRow(cell.y);
+      }
+    }
 
-      x = clamp(x, 0, buffer.w - 1);
-      y = clamp(y, 0, buffer.h - 1);
+    private onScrollbarMouseUp(event: MouseEvent) {
+      window.removeEventListener("mousemove", this.boundOnScrollbarMouseMove, false);
+      window.removeEventListener("mouseup", this.boundOnScrollbarMouseUp, false);
+      this.dragPart = ScrollbarPart.None;
+    }
 
-      var r = Math.min(h, buffer.h - y);
+    /**
+     * Centers the rows minimap row |row| stands for.
+     */
+    private scrollToMinimapRow(row: number) {
+      var h = this.contentH;
+      if (h === 0) {
+        return;
+      }
+      var target = Math.floor((clamp(row, 0, h - 1) + 0.5) * this.rows / h) - (h >> 1);
+      this.scroll(0, target - (this.y | 0));
+    }
 
-      for (var j = 0; j < r; j++) {
-        var s = buffer.starts[y + j];
-        var e = buffer.starts[y + j + 1];
-        var l = e - s - x;
-        for (var i = 0; i < l; i++) {
-          var p = s + x + i;
-          var c = buffer.buffer[p];
-          var color = buffer.colors[p]
-          this.putChar(c, i, j, color);
-        }
+    /**
+     * Renders if the buffer, the view or the screen size changed. The scheduler calls this every
+     * frame, without requestAnimationFrame, e.g. in Node, call it directly.
+     */
+    public update() {
+      if (this.searchResults && !this.searchResults.complete) {
+        this.continueSearch();
+      }
+      if (this.version !== this.buffer.version || (this.filter && !this.filter.complete) || this.rowsChanged ||
+          this.screenW !== this.screen.w || this.screenH !== this.screen.h ||
+          this.screenGeneration !== this.screen.generation) {
+        this.render(this.version === 0 || this.screenW !== this.screen.w || this.screenH !== this.screen.h ||
+                    this.screenGeneration !== this.screen.generation);
+        this.version = this.buffer.version;
       }
-      this.invalidate();
     }
   }
 
-  function getTargetMousePos(event: MouseEvent, target: HTMLElement): any {
-    var rect = target.getBoundingClientRect();
-    return {
-      x: event.clientX - rect.left,
-      y: event.clientY - rect.top
-    };
+  export interface ConsoleAdapterOptions {
+    /**
+     * Whether calls are also passed on to the original console methods.
+     */
+    forward?: boolean;
+
+    /**
+     * Limits of the object inspector: nesting depth, properties or elements shown per object and
+     * characters shown per nested string.
+     */
+    maxDepth?: number;
+    maxProperties?: number;
+    maxStringLength?: number;
   }
 
-  export class View {
-    screen: Screen;
-    buffer: Buffer;
-    version: number;
-    x: number;
-    y: number;
+  /**
+   * The console's logging methods by level.
+   */
+  interface ConsoleMethods {
+    [level: string]: (...args: any[]) => void;
+  }
 
-    constructor(screen: Screen, buffer: Buffer) {
-      this.x = 0;
-      this.y = 0;
-      this.screen = screen;
-      this.buffer = buffer;
-      this.version = buffer.version;
-      this.enterRenderLoop();
+  function getConsoleMethods(): ConsoleMethods {
+    return <ConsoleMethods><any>console;
+  }
 
-      var boundOnMouseWheel = this.onMouseWheel.bind(this);
-      screen.canvas.addEventListener(("onwheel" in document ? "wheel" : "mousewheel"), boundOnMouseWheel, false);
-    }
+  /**
+   * Redirects console.log, info, warn, error and debug into a buffer. Arguments are formatted the
+   * way the console does, each level is written to its own channel, e.g. "console.warn", so views
+   * can hide levels, and colored with an SGR sequence so themes apply.
+   */
+  export class ConsoleAdapter {
+    static levels = ["log", "info", "warn", "error", "debug"];
 
-    private onMouseWheel(event: any) {
-      if (!event.altKey && !event.ctrlKey && !event.shiftKey) {
-        event.preventDefault();
+    /**
+     * SGR sequence written before the messages of each level.
+     */
+    levelSequences: { [level: string]: string } = {
+      log: "",
+      info: "\x1b[36m",
+      warn: "\x1b[33m",
+      error: "\x1b[31m",
+      debug: "\x1b[2m"
+    };
 
-        var deltaX = event.deltaX;
-        var deltaY = event.deltaY;
+    forward: boolean;
+    maxDepth: number;
+    maxProperties: number;
+    maxStringLength: number;
 
-        if (event.deltaMode === WheelEvent.DOM_DELTA_PIXEL) {
-          deltaX /= 40;
-          deltaY /= 40;
-        } else if (event.deltaMode === WheelEvent.DOM_DELTA_LINE) {
-          deltaX *= 10;
-          deltaY *= 10;
-        }
+    private originals: ConsoleMethods;
 
-        var x = clamp(deltaX, -1, 1);
-        var y = clamp(deltaY, -1, 1);
+    /**
+     * Set while writing a message, console calls made meanwhile, e.g. by |unexpected|, are only
+     * forwarded.
+     */
+    private writing: boolean;
 
-        if (event.metaKey) {
-          x *= 10;
-        }
+    constructor(public buffer: Buffer, options: ConsoleAdapterOptions = {}) {
+      this.forward = !!options.forward;
+      this.maxDepth = options.maxDepth === undefined ? 2 : options.maxDepth;
+      this.maxProperties = options.maxProperties || 20;
+      this.maxStringLength = options.maxStringLength || 200;
+      this.originals = null;
+      this.writing = false;
+    }
 
-        if (event.metaKey) {
-          y *= 100;
-        }
+    get installed(): boolean {
+      return this.originals !== null;
+    }
 
-        this.scroll(x, y);
+    public install() {
+      if (this.originals) {
+        return;
       }
+      var self = this;
+      var methods = getConsoleMethods();
+      var originals = this.originals = Object.create(null);
+      ConsoleAdapter.levels.forEach(function (level) {
+        var original = originals[level] = methods[level];
+        methods[level] = function () {
+          var args = Array.prototype.slice.call(arguments);
+          if (self.forward || self.writing) {
+            original.apply(console, args);
+          }
+          if (!self.writing) {
+            self.write(level, args);
+          }
+        };
+      });
     }
 
-    public scroll(x: number, y: number) {
-      this.y = clamp(this.y + y, 0, this.buffer.h - this.screen.h);
-      this.x = clamp(this.x + x, 0, this.buffer.w - this.screen.w);
-      this.version = 0;
+    /**
+     * Restores the original console methods.
+     */
+    public uninstall() {
+      var originals = this.originals;
+      if (!originals) {
+        return;
+      }
+      var methods = getConsoleMethods();
+      ConsoleAdapter.levels.forEach(function (level) {
+        methods[level] = originals[level];
+      });
+      this.originals = null;
     }
 
-    public scrollToBottom() {
-      this.x = 0;
-      this.y = clamp(this.buffer.h - this.screen.h, 0, this.buffer.h);
-      this.render();
+    /**
+     * Writes a message of |level| formatted from |args| as a line of its own. A line another
+     * writer hasn't completed yet is set aside and continued afterwards, with its channel, colors
+     * and style.
+     */
+    public write(level: string, args: any[]) {
+      var buffer = this.buffer;
+      var line = buffer.suspendLine();
+      this.writing = true;
+      try {
+        buffer.setChannel(buffer.channelRegistry.register("console." + level));
+        var sequence = this.levelSequences[level] || "";
+        buffer.writeString(sequence + this.format(args) + (sequence ? "\x1b[0m" : ""));
+        buffer.writeLine();
+      } finally {
+        buffer.resumeLine(line);
+        this.writing = false;
+      }
     }
 
-    private render() {
-      this.screen.clear();
-      this.screen.writeBuffer(this.buffer, this.x | 0, this.y | 0);
+    /**
+     * Formats |args| like console.log: a leading string may contain %s, %d, %i, %f, %o, %O, %c
+     * and %% substitutions, the remaining arguments are appended separated by spaces.
+     */
+    public format(args: any[]): string {
+      var parts = [];
+      var k = 0;
+      if (typeof args[0] === "string") {
+        var self = this;
+        k = 1;
+        parts.push(args[0].replace(/%([sdifoOc%])/g, function (match, type) {
+          if (type === "%") {
+            return "%";
+          }
+          if (k >= args.length) {
+            return match;
+          }
+          var arg = args[k++];
+          switch (type) {
+            case "s":
+              return typeof arg === "string" ? arg : self.inspect(arg, 0);
+            case "d":
+            case "i":
+              if (typeof arg === "number") {
+                return String(arg < 0 ? Math.ceil(arg) : Math.floor(arg));
+              }
+              return String(parseInt(arg, 10));
+            case "f":
+              return String(parseFloat(arg));
+            case "c":
+              // CSS styles don't apply.
+              return "";
+            default:
+              return self.inspect(arg, 0);
+          }
+        }));
+      }
+      for (; k < args.length; k++) {
+        parts.push(typeof args[k] === "string" ? args[k] : this.inspect(args[k], 0));
+      }
+      return parts.join(" ");
     }
 
-    private enterRenderLoop() {
-      var self = this;
-      function tick() {
-        if (self.version !== self.buffer.version) {
-          self.render();
-          self.version = self.buffer.version;
+    /**
+     * Describes |value| at nesting |depth|, objects deeper than |maxDepth| are abbreviated and
+     * cycles are marked.
+     */
+    public inspect(value: any, depth: number, seen: any[] = []): string {
+      switch (typeof value) {
+        case "string":
+          if (value.length > this.maxStringLength) {
+            value = value.substring(0, this.maxStringLength) + "...";
+          }
+          return depth > 0 ? JSON.stringify(value) : value;
+        case "function":
+          return "[Function" + (value.name ? ": " + value.name : "") + "]";
+        case "object":
+          break;
+        default:
+          return String(value);
+      }
+      if (value === null) {
+        return "null";
+      }
+      try {
+        return this.inspectObject(value, depth, seen);
+      } catch (e) {
+        // Proxies and getters may throw while the object is being looked at.
+        return "[object (inspect failed)]";
+      }
+    }
+
+    private inspectObject(value: any, depth: number, seen: any[]): string {
+      if (value instanceof Error) {
+        return value.stack || String(value);
+      }
+      if (value instanceof Date) {
+        return isNaN(value.getTime()) ? "Invalid Date" : value.toISOString();
+      }
+      if (value instanceof RegExp) {
+        return String(value);
+      }
+      var isArray = Array.isArray(value);
+      if (seen.indexOf(value) >= 0) {
+        return "[Circular]";
+      }
+      if (depth > this.maxDepth) {
+        return isArray ? "[Array]" : "[Object]";
+      }
+      seen.push(value);
+      var items = [];
+      try {
+        var keys = isArray ? null : Object.keys(value);
+        var length = isArray ? value.length : keys.length;
+        var n = Math.min(length, this.maxProperties);
+        for (var i = 0; i < n; i++) {
+          var item;
+          try {
+            item = this.inspect(isArray ? value[i] : value[keys[i]], depth + 1, seen);
+          } catch (e) {
+            item = "[Exception]";
+          }
+          items.push(isArray ? item : keys[i] + ": " + item);
         }
-        requestAnimationFrame(tick);
+        if (length > n) {
+          items.push("... " + (length - n) + " more");
+        }
+      } finally {
+        seen.pop();
+      }
+      if (isArray) {
+        return "[" + items.join(", ") + "]";
       }
-      requestAnimationFrame(tick);
+      var constructor = value.constructor;
+      var name = constructor && constructor !== Object && constructor.name ? constructor.name + " " : "";
+      return name + "{" + items.join(", ") + "}";
     }
   }
 }
@@ -0,0 +1,264 @@
+var assert = require("assert");
+var harness = require("./harness");
+var test = harness.test;
+
+var Terminal = harness.load({ requestAnimationFrame: undefined });
+
+function lineText(buffer, y) {
+  var line = buffer.getLine(y);
+  return String.fromCharCode.apply(null, line.cells.subarray(line.start, line.end));
+}
+
+function lineColors(buffer, y) {
+  var line = buffer.getLine(y);
+  return Array.prototype.slice.call(line.colors.subarray(line.start, line.end));
+}
+
+function lineAttributes(buffer, y) {
+  var line = buffer.getLine(y);
+  return Array.prototype.map.call(line.styles.subarray(line.start, line.end), function (style) {
+    return style >>> 16;
+  });
+}
+
+var Attribute = Terminal.Attribute;
+var DefaultForeground = Terminal.PaletteIndex.DefaultForeground;
+
+test("Buffer parses 16 color SGR sequences", function () {
+  var buffer = new Terminal.Buffer();
+  buffer.writeString("\x1b[31mr\x1b[1mR\x1b[22mr\x1b[94mb\x1b[39md\n");
+  assert.equal(lineText(buffer, 0), "rRrbd");
+  assert.deepEqual(lineColors(buffer, 0), [1, 9, 1, 12, DefaultForeground]);
+  assert.equal(lineAttributes(buffer, 0)[1], Attribute.Bold | Attribute.IndexedForeground);
+});
+
+test("Buffer parses 256 color and 24-bit SGR sequences", function () {
+  var buffer = new Terminal.Buffer();
+  buffer.writeString("\x1b[38;5;208ma\x1b[48;5;17mb\x1b[38;2;255;0;0mc\x1b[1mC\x1b[22mc\n");
+  assert.deepEqual(lineColors(buffer, 0), [208, 208, 0xF800, 0xF800, 0xF800]);
+  var attributes = lineAttributes(buffer, 0);
+  assert.equal(attributes[0], Attribute.IndexedForeground);
+  assert.equal(attributes[1], Attribute.IndexedForeground | Attribute.Background | Attribute.IndexedBackground);
+  assert.equal(attributes[3], Attribute.Background | Attribute.IndexedBackground | Attribute.Bold);
+  assert.equal(buffer.getLine(0).styles[1] & 0xFFFF, 17);
+});
+
+test("Buffer resets colors and attributes with SGR 0", function () {
+  var buffer = new Terminal.Buffer();
+  buffer.writeString("\x1b[4;41;1;32mx\x1b[0my\x1b[mz\n");
+  assert.deepEqual(lineColors(buffer, 0), [10, DefaultForeground, DefaultForeground]);
+  assert.deepEqual(lineAttributes(buffer, 0).slice(1), [Attribute.IndexedForeground, Attribute.IndexedForeground]);
+});
+
+test("Buffer parses sequences split across writes", function () {
+  var buffer = new Terminal.Buffer();
+  var text = "a\x1b[38;2;0;255;0mb\x1b[0mc\n";
+  for (var i = 0; i < text.length; i++) {
+    buffer.writeString(text[i]);
+  }
+  assert.equal(lineText(buffer, 0), "abc");
+  assert.deepEqual(lineColors(buffer, 0), [DefaultForeground, 0x07E0, DefaultForeground]);
+});
+
+test("Buffer aborts a control sequence on a control character", function () {
+  var buffer = new Terminal.Buffer();
+  buffer.writeString("a\x1b[\nb\n");
+  assert.equal(buffer.h, 2);
+  assert.equal(lineText(buffer, 0), "a");
+  assert.equal(lineText(buffer, 1), "b");
+});
+
+test("Buffer counts records toward maxBytes", function () {
+  var buffer = new Terminal.Buffer({ maxBytes: 1000 });
+  var template = buffer.registerTemplate("frame %d took %.2f ms");
+  for (var i = 0; i < 200000; i++) {
+    buffer.writeRecord(template, i, i / 7);
+  }
+  // Each record stores 6 numbers.
+  assert.ok(buffer.h <= 1000 / 6, "kept " + buffer.h + " lines");
+  assert.ok(buffer.h > 100, "kept " + buffer.h + " lines");
+  var line = buffer.getLine(buffer.h - 1);
+  var text = String.fromCharCode.apply(null, line.cells.subarray(line.start, line.end));
+  assert.equal(text, "frame 199999 took 28571.29 ms");
+});
+
+test("Buffer counts records and text toward maxBytes together", function () {
+  var buffer = new Terminal.Buffer({ maxBytes: 1000 });
+  var template = buffer.registerTemplate("%d");
+  for (var i = 0; i < 10000; i++) {
+    buffer.writeRecord(template, i);
+    buffer.writeString("0123456789\n");
+  }
+  var records = 0;
+  for (var y = 0; y < buffer.h; y++) {
+    records += buffer.isRecord(y) ? 1 : 0;
+  }
+  // Each record stores 5 numbers.
+  assert.ok(buffer.i + records * 5 <= 1000, "kept " + buffer.h + " lines");
+  assert.ok(buffer.h > 100, "kept " + buffer.h + " lines");
+});
+
+test("Buffer measures records that haven't been shown", function () {
+  var buffer = new Terminal.Buffer();
+  var template = buffer.registerTemplate("value %d");
+  buffer.writeString("short\n");
+  buffer.writeRecord(template, 1234567890);
+  assert.equal(buffer.w, "value 1234567890".length);
+});
+
+test("Template pads conversions to their width", function () {
+  var buffer = new Terminal.Buffer();
+  var template = buffer.registerTemplate("[%5d|%05d|%.2f|%8.3f] %% %5%");
+  buffer.writeRecord(template, 42, -42, 1 / 3, 2);
+  buffer.writeRecord(buffer.registerTemplate("%06.1f %08x %2d %.f"), -1.5, 255, 12345, 2.5);
+  assert.equal(lineText(buffer, 0), "[   42|-0042|0.33|   2.000] % %5%");
+  assert.equal(lineText(buffer, 1), "-001.5 000000ff 12345 3");
+});
+
+test("Buffer rejects templates of another registry", function () {
+  var buffer = new Terminal.Buffer();
+  var other = new Terminal.Buffer().registerTemplate("other %d");
+  var error = console.error;
+  var messages = [];
+  console.error = function (message) {
+    messages.push(message);
+  };
+  try {
+    buffer.writeRecord(other, 1);
+  } finally {
+    console.error = error;
+  }
+  assert.equal(buffer.h, 0);
+  assert.equal(messages.length, 1);
+});
+
+test("Buffer keeps starts, h and version consistent while evicting", function () {
+  var buffer = new Terminal.Buffer({ maxLines: 100, maxBytes: 4000 });
+  var version = buffer.version;
+  for (var i = 0; i < 1000; i++) {
+    buffer.writeString("line " + i + "\n");
+    assert.ok(buffer.version > version);
+    version = buffer.version;
+  }
+  assert.ok(buffer.h <= 100);
+  assert.equal(buffer.evicted + buffer.h, 1000);
+  assert.equal(buffer.starts[0], 0);
+  for (var y = 0; y < buffer.h; y++) {
+    assert.ok(buffer.starts[y] < buffer.starts[y + 1]);
+  }
+  assert.equal(buffer.starts[buffer.h], buffer.i);
+  assert.equal(lineText(buffer, 0), "line " + buffer.evicted);
+  assert.equal(lineText(buffer, buffer.h - 1), "line 999");
+});
+
+/**
+ * Calls |fn| with console.error silenced, returns the messages it reported.
+ */
+function captureErrors(fn) {
+  var error = console.error;
+  var messages = [];
+  console.error = function (message) {
+    messages.push(message);
+  };
+  try {
+    fn();
+  } finally {
+    console.error = error;
+  }
+  return messages;
+}
+
+test("Buffer loads what it saved", function () {
+  var buffer = new Terminal.Buffer();
+  buffer.setChannel(buffer.channelRegistry.register("net", 0x07E0));
+  buffer.writeString("\x1b[31mred\x1b[0m plain 中\n");
+  buffer.setChannel(buffer.channelRegistry.register("gc"));
+  buffer.writeString("second\n");
+  var loaded = new Terminal.Buffer();
+  loaded.writeString("existing\n");
+  assert.ok(loaded.load(buffer.save()));
+  assert.equal(loaded.h, 3);
+  assert.equal(lineText(loaded, 1), lineText(buffer, 0));
+  assert.deepEqual(lineColors(loaded, 1), lineColors(buffer, 0));
+  assert.deepEqual(lineAttributes(loaded, 1), lineAttributes(buffer, 0));
+  assert.equal(lineText(loaded, 2), "second");
+  var channels = loaded.channelRegistry.channels;
+  assert.equal(channels[loaded.channels[1]].name, "net");
+  assert.equal(channels[loaded.channels[1]].color, 0x07E0);
+  assert.equal(channels[loaded.channels[2]].name, "gc");
+});
+
+test("Buffer rejects corrupt saved data", function () {
+  var buffer = new Terminal.Buffer();
+  buffer.writeString("one\ntwo\n");
+  var saved = buffer.save();
+  var header = new Uint32Array(saved, 0, 6);
+  var startsOffset = 24;
+  var tableOffset = saved.byteLength - 2 - header[4] * 2;
+
+  function expectRejected(data) {
+    var loaded = new Terminal.Buffer();
+    var result;
+    var messages = captureErrors(function () {
+      result = loaded.load(data);
+    });
+    assert.equal(result, false);
+    assert.equal(messages.length, 1);
+    assert.equal(loaded.h, 0);
+  }
+
+  function corrupt(change) {
+    var data = saved.slice(0);
+    change(data);
+    expectRejected(data);
+  }
+
+  corrupt(function (data) {
+    new Uint16Array(data, tableOffset, 1)[0] = "{".charCodeAt(0);
+  });
+  corrupt(function (data) {
+    new Uint32Array(data, startsOffset, 3)[1] = 7;
+  });
+  corrupt(function (data) {
+    new Uint32Array(data, startsOffset, 3)[2] = 100;
+  });
+  corrupt(function (data) {
+    new Uint8Array(data, saved.byteLength - 2, 2)[1] = 9;
+  });
+  for (var n = 0; n < saved.byteLength; n += 7) {
+    expectRejected(saved.slice(0, n));
+  }
+});
+
+test("ConsoleAdapter writes messages in the default style in the middle of a line", function () {
+  var buffer = new Terminal.Buffer();
+  var adapter = new Terminal.ConsoleAdapter(buffer);
+  buffer.writeString("\x1b[4;41;1;32mpartial");
+  adapter.write("log", ["hello"]);
+  adapter.write("warn", ["careful"]);
+  buffer.writeString(" rest\n");
+  assert.equal(lineText(buffer, 0), "hello");
+  assert.deepEqual(lineAttributes(buffer, 0), [Attribute.IndexedForeground, Attribute.IndexedForeground,
+                                              Attribute.IndexedForeground, Attribute.IndexedForeground,
+                                              Attribute.IndexedForeground]);
+  assert.deepEqual(lineColors(buffer, 0), [DefaultForeground, DefaultForeground, DefaultForeground,
+                                         DefaultForeground, DefaultForeground]);
+  assert.equal(lineAttributes(buffer, 1)[0], Attribute.IndexedForeground);
+  assert.equal(lineColors(buffer, 1)[0], 3);
+  assert.equal(lineText(buffer, 2), "partial rest");
+  assert.equal(lineAttributes(buffer, 2)[11], Attribute.Underline | Attribute.Bold | Attribute.Background |
+               Attribute.IndexedForeground | Attribute.IndexedBackground);
+  assert.equal(lineColors(buffer, 2)[11], 10);
+});
+
+test("ConsoleAdapter describes objects that throw while inspected", function () {
+  var adapter = new Terminal.ConsoleAdapter(new Terminal.Buffer());
+  var proxy = new Proxy({}, {
+    ownKeys: function () {
+      throw new Error("ownKeys");
+    }
+  });
+  assert.equal(adapter.inspect(proxy, 0), "[object (inspect failed)]");
+  var getter = { get b() { throw new Error("b"); } };
+  assert.ok(/^a .*\{b: \[Exception\]\}$/.test(adapter.format(["a", getter])));
+});
@@ -0,0 +1,33 @@
+var assert = require("assert");
+var harness = require("./harness");
+var test = harness.test;
+
+var Terminal = harness.load({ requestAnimationFrame: undefined });
+
+test("GridScreen shows the lines a View draws", function () {
+  var buffer = new Terminal.Buffer();
+  buffer.writeString("first\nsecond\n");
+  var screen = new Terminal.GridScreen(20, 4);
+  var view = new Terminal.View(screen, buffer);
+  view.update();
+  assert.equal(screen.getRowText(0), "first               ");
+  assert.equal(screen.getText().split("\n").slice(0, 2).join("\n"), "first\nsecond");
+});
+
+test("GridScreen keeps colors and clips to its size", function () {
+  var screen = new Terminal.GridScreen(4, 2);
+  screen.putChar(65, 3, 1, 7);
+  screen.putChar(66, 4, 1, 7);
+  screen.putChar(67, 0, 2, 7);
+  assert.equal(screen.getText(), "\n   A");
+  assert.equal(screen.colors[7], 7);
+  screen.clearRect(2, 0, 10, 10);
+  assert.equal(screen.getText(), "\n");
+});
+
+test("GridScreen puts a padding cell after wide characters", function () {
+  var screen = new Terminal.GridScreen(4, 1);
+  screen.putChar(0x4E2D, 0, 0, 0);
+  assert.equal(screen.codePoints[1], Terminal.CharacterCode.WideCharacterPadding);
+  assert.equal(screen.getRowText(0), "中  ");
+});
@@ -0,0 +1,38 @@
+/**
+ * Loads build/terminal.js into a fresh context with just enough of a browser for buffers, views
+ * and the in-memory |GridScreen|, and collects tests for run.js.
+ */
+var fs = require("fs");
+var path = require("path");
+var vm = require("vm");
+
+var source = path.join(__dirname, "..", "build", "terminal.js");
+
+/**
+ * Returns the Terminal module, with |globals| added to or replacing the fake browser ones.
+ * Frames are painted synchronously unless |globals| provides requestAnimationFrame.
+ */
+exports.load = function (globals) {
+  var context = {
+    console: console,
+    window: {},
+    navigator: {},
+    document: { addEventListener: function () {} },
+    performance: { now: function () { return Date.now(); } },
+    setTimeout: setTimeout,
+    clearTimeout: clearTimeout
+  };
+  for (var name in globals) {
+    context[name] = globals[name];
+  }
+  context.self = context;
+  vm.createContext(context);
+  vm.runInContext(fs.readFileSync(source, "utf8") + "\nthis.Terminal = Terminal;", context, source);
+  return context.Terminal;
+};
+
+var tests = exports.tests = [];
+
+exports.test = function (name, fn) {
+  tests.push({ name: name, fn: fn });
+};
@@ -0,0 +1,34 @@
+var assert = require("assert");
+var harness = require("./harness");
+var test = harness.test;
+
+var Terminal = harness.load({ requestAnimationFrame: undefined });
+
+test("Layout positions panes when splitting and after update", function () {
+  var screen = new Terminal.GridScreen(21, 6);
+  var layout = new Terminal.Layout(screen);
+  var left = layout.panes[0];
+  var right = layout.split(left, Terminal.SplitDirection.Row);
+  assert.deepEqual([left.w, left.h, right.left, right.w], [10, 6, 11, 10]);
+  screen.resize(31, 6);
+  assert.equal(right.w, 10);
+  layout.update();
+  assert.deepEqual([left.w, right.left, right.w], [15, 16, 15]);
+});
+
+test("Layout gives a closed pane's space to its sibling", function () {
+  var screen = new Terminal.GridScreen(21, 7);
+  var layout = new Terminal.Layout(screen);
+  var top = layout.panes[0];
+  var bottom = layout.split(top, Terminal.SplitDirection.Column);
+  var corner = layout.split(bottom, Terminal.SplitDirection.Row);
+  layout.activePane = bottom;
+  layout.close(bottom);
+  assert.equal(layout.panes.length, 2);
+  assert.equal(layout.activePane, corner);
+  assert.deepEqual([corner.left, corner.top, corner.w, corner.h], [0, 4, 21, 3]);
+  var generation = top.generation;
+  layout.close(corner);
+  assert.deepEqual([top.w, top.h], [21, 7]);
+  assert.notEqual(top.generation, generation);
+});
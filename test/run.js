@@ -0,0 +1,24 @@
+/**
+ * Runs every *-test.js file in this directory, e.g. with "make test".
+ */
+var fs = require("fs");
+var harness = require("./harness");
+
+fs.readdirSync(__dirname).filter(function (file) {
+  return /-test\.js$/.test(file);
+}).sort().forEach(function (file) {
+  require("./" + file);
+});
+
+var failed = 0;
+harness.tests.forEach(function (test) {
+  try {
+    test.fn();
+    console.log("ok " + test.name);
+  } catch (e) {
+    failed++;
+    console.log("not ok " + test.name + "\n" + (e && e.stack || e));
+  }
+});
+console.log(harness.tests.length - failed + " passed, " + failed + " failed");
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,75 @@
+var assert = require("assert");
+var harness = require("./harness");
+var test = harness.test;
+
+var Terminal = harness.load({ requestAnimationFrame: undefined });
+
+function createBuffer(lines) {
+  var buffer = new Terminal.Buffer();
+  lines.forEach(function (line) {
+    buffer.writeString(line + "\n");
+  });
+  return buffer;
+}
+
+test("Search keeps the flags of a regular expression", function () {
+  var buffer = createBuffer(["ERR one", "ok", "err two", "a\u{1F600}b"]);
+  var search = new Terminal.Search(/err/i);
+  search.update(buffer);
+  assert.equal(search.count, 2);
+  search = new Terminal.Search(/a.b/u);
+  search.update(buffer);
+  assert.equal(search.count, 1);
+  search = new Terminal.Search(/err/, false);
+  search.update(buffer);
+  assert.equal(search.count, 2);
+});
+
+test("Search resumes where its budget ran out", function () {
+  var lines = [];
+  for (var i = 0; i < 5000; i++) {
+    lines.push("line " + i);
+  }
+  var buffer = createBuffer(lines);
+  var search = new Terminal.Search("line 4999");
+  search.update(buffer, -1);
+  assert.equal(search.complete, false);
+  assert.equal(search.count, 0);
+  while (!search.complete) {
+    search.update(buffer, -1);
+  }
+  assert.equal(search.count, 1);
+  assert.equal(search.matches[0], 4999);
+});
+
+test("LineIndex resumes where its budget ran out", function () {
+  var lines = [];
+  for (var i = 0; i < 3000; i++) {
+    lines.push(i % 1000 ? "x" : "marker");
+  }
+  var buffer = createBuffer(lines);
+  var index = new Terminal.LineIndex(function (buffer, y) {
+    return buffer.getLineText(y) === "marker";
+  });
+  index.update(buffer, -1);
+  assert.equal(index.complete, false);
+  while (!index.complete) {
+    index.update(buffer, -1);
+  }
+  assert.deepEqual(Array.prototype.slice.call(index.lines, 0, index.count), [0, 1000, 2000]);
+});
+
+test("LinkDetector finds links in the columns they are shown in", function () {
+  var buffer = createBuffer(["中文 see src/main.js:12:5 and https://example.com/a."]);
+  var links = [];
+  Terminal.LinkDetector.sourceLocation.forEachLink(buffer, 0, function (column, length, match) {
+    links.push([column, length].concat(match));
+  });
+  Terminal.LinkDetector.url.forEachLink(buffer, 0, function (column, length, match) {
+    links.push([column, length].concat(match));
+  });
+  assert.deepEqual(links, [
+    [9, 16, "src/main.js:12:5", "src/main.js", "12", "5"],
+    [30, 21, "https://example.com/a"]
+  ]);
+});
@@ -0,0 +1,82 @@
+var assert = require("assert");
+var harness = require("./harness");
+var test = harness.test;
+
+var Terminal = harness.load({
+  requestAnimationFrame: undefined,
+  SharedArrayBuffer: SharedArrayBuffer,
+  Atomics: Atomics
+});
+
+function lineText(buffer, y) {
+  var line = buffer.getLine(y);
+  return String.fromCharCode.apply(null, line.cells.subarray(line.start, line.end));
+}
+
+function readAll(reader) {
+  reader.update();
+  var lines = [];
+  for (var y = 0; y < reader.h; y++) {
+    lines.push(lineText(reader, y));
+  }
+  return lines;
+}
+
+test("SharedBufferReader reads lines that wrap around the ring", function () {
+  var shared = Terminal.SharedBuffer.create(16, 4);
+  var writer = new Terminal.SharedBufferWriter(shared);
+  var reader = new Terminal.SharedBufferReader(shared);
+  var expected = [];
+  for (var i = 0; i < 20; i++) {
+    var text = "line" + i;
+    writer.writeString("\x1b[3" + (i % 8) + "m" + text + "\n");
+    expected.push(text);
+    if (i % 2) {
+      reader.update();
+    }
+  }
+  assert.deepEqual(readAll(reader), expected);
+  assert.equal(reader.getLine(3).colors[reader.getLine(3).start], 3);
+  assert.equal(reader.dropped, 0);
+  reader.dispose();
+});
+
+test("SharedBufferWriter counts the lines it drops when the ring is full", function () {
+  var shared = Terminal.SharedBuffer.create(16, 4);
+  var writer = new Terminal.SharedBufferWriter(shared);
+  var reader = new Terminal.SharedBufferReader(shared);
+  for (var i = 0; i < 6; i++) {
+    writer.writeString(i + "\n");
+  }
+  writer.writeString("a line longer than the whole ring\n");
+  assert.deepEqual(readAll(reader), ["0", "1", "2", "3"]);
+  assert.equal(reader.dropped, 3);
+  writer.writeString("after\n");
+  assert.deepEqual(readAll(reader), ["0", "1", "2", "3", "after"]);
+  reader.dispose();
+});
+
+test("SharedBufferWriter indents records in groups and rejects templates of another registry", function () {
+  var shared = Terminal.SharedBuffer.create(1024, 16);
+  var writer = new Terminal.SharedBufferWriter(shared);
+  var reader = new Terminal.SharedBufferReader(shared);
+  var template = writer.registerTemplate("took %3d ms");
+  writer.openGroup("group");
+  writer.writeRecord(template, 5);
+  writer.writeString("text\n");
+  writer.closeGroup();
+  writer.writeRecord(template, 6);
+  var error = console.error;
+  var messages = [];
+  console.error = function (message) {
+    messages.push(message);
+  };
+  try {
+    writer.writeRecord(new Terminal.Buffer().registerTemplate("other %d"), 1);
+  } finally {
+    console.error = error;
+  }
+  assert.equal(messages.length, 1);
+  assert.deepEqual(readAll(reader), ["  group", "  took   5 ms", "  text", "took   6 ms"]);
+  reader.dispose();
+});
@@ -0,0 +1,295 @@
+var assert = require("assert");
+var harness = require("./harness");
+var test = harness.test;
+
+var Terminal = harness.load({
+  requestAnimationFrame: undefined,
+  WheelEvent: { DOM_DELTA_PIXEL: 0, DOM_DELTA_LINE: 1, DOM_DELTA_PAGE: 2 }
+});
+
+/**
+ * Stands in for the canvas of a |GridScreen| one pixel per cell, events are sent with |dispatch|.
+ */
+function createCanvas() {
+  var listeners = {};
+  return {
+    style: {},
+    addEventListener: function (type, listener) {
+      listeners[type] = listener;
+    },
+    removeEventListener: function () {},
+    getBoundingClientRect: function () {
+      return { left: 0, top: 0 };
+    },
+    dispatch: function (type, event) {
+      event.preventDefault = function () {};
+      listeners[type](event);
+    }
+  };
+}
+
+function snapshot(screen) {
+  return screen.getText() + Array.prototype.join.call(screen.colors) + Array.prototype.join.call(screen.styles);
+}
+
+test("View only paints new rows while following", function () {
+  var buffer = new Terminal.Buffer();
+  for (var i = 0; i < 50; i++) {
+    buffer.writeString("line " + i + "\n");
+  }
+  var screen = new Terminal.GridScreen(40, 10);
+  var view = new Terminal.View(screen, buffer);
+  view.setFollow(true);
+  view.update();
+  screen.stats.reset();
+  for (i = 50; i < 60; i++) {
+    buffer.writeString("line " + i + "\n");
+    view.update();
+  }
+  // Each line paints its own row and the row that scrolled out from under the follow label.
+  assert.equal(screen.stats.rowsPainted, 20);
+  assert.equal(screen.getRowText(9).indexOf("line 59 "), 0);
+  var painted = snapshot(screen);
+  view.setFollow(true);
+  view.update();
+  assert.equal(snapshot(screen), painted);
+});
+
+test("View moves the rows still shown when scrolling", function () {
+  var buffer = new Terminal.Buffer();
+  for (var i = 0; i < 50; i++) {
+    buffer.writeString("line " + i + "\n");
+  }
+  var screen = new Terminal.GridScreen(40, 10);
+  var view = new Terminal.View(screen, buffer);
+  view.update();
+  screen.stats.reset();
+  view.scroll(0, 3);
+  view.update();
+  view.scroll(0, -1);
+  view.update();
+  // Three new rows and the one under the paused label, then one new row.
+  assert.equal(screen.stats.rowsPainted, 5);
+  assert.equal(screen.getRowText(0).trim(), "line 2");
+  var painted = snapshot(screen);
+  view.setGutter(0);
+  view.update();
+  assert.equal(snapshot(screen), painted);
+});
+
+test("View underlines hovered links over the selection", function () {
+  var buffer = new Terminal.Buffer();
+  buffer.writeString("see https://example.com/a here\n");
+  var screen = new Terminal.GridScreen(40, 5);
+  screen.canvas = createCanvas();
+  var view = new Terminal.View(screen, buffer);
+  view.onLinkClick = function () {};
+  view.select(0, 0, 40, 0);
+  view.update();
+  var color = screen.colors[6];
+  var style = screen.styles[6];
+  screen.canvas.dispatch("mousemove", { clientX: 6.5, clientY: 0.5 });
+  view.update();
+  assert.equal(screen.canvas.style.cursor, "pointer");
+  assert.equal(screen.colors[6], color);
+  assert.equal(screen.styles[6], (style | Terminal.Attribute.Underline << 16) >>> 0);
+});
+
+test("View finds the hovered link again after a wheel scroll", function () {
+  var buffer = new Terminal.Buffer();
+  for (var i = 0; i < 20; i++) {
+    buffer.writeString("/src/file" + i + ".js:1\n");
+  }
+  var screen = new Terminal.GridScreen(40, 5);
+  screen.canvas = createCanvas();
+  var view = new Terminal.View(screen, buffer);
+  view.onLinkClick = function () {};
+  view.update();
+  screen.canvas.dispatch("mousemove", { clientX: 2.5, clientY: 0.5 });
+  view.update();
+  screen.canvas.dispatch("mousewheel", { clientX: 2.5, clientY: 0.5, deltaX: 0, deltaY: 40, deltaMode: 0 });
+  view.update();
+  assert.equal(screen.getRowText(0).trim(), "/src/file1.js:1");
+  assert.ok(screen.styles[2] >>> 16 & Terminal.Attribute.Underline);
+});
+
+test("View keeps showing the same lines while older ones are evicted", function () {
+  var buffer = new Terminal.Buffer({ maxLines: 100 });
+  for (var i = 0; i < 100; i++) {
+    buffer.writeString("line " + i + "\n");
+  }
+  var screen = new Terminal.GridScreen(40, 10);
+  var view = new Terminal.View(screen, buffer);
+  view.scrollToLine(61);
+  view.update();
+  assert.equal(screen.getRowText(0).trim(), "line 60");
+  for (i = 100; i < 130; i++) {
+    buffer.writeString("line " + i + "\n");
+  }
+  view.update();
+  assert.ok(buffer.evicted > 0);
+  assert.equal(screen.getRowText(0).trim(), "line 60");
+});
+
+test("View wraps lines again at the new width after a resize", function () {
+  var buffer = new Terminal.Buffer();
+  for (var i = 0; i < 20; i++) {
+    buffer.writeString(i + ":" + "abcdefghijklmnopqrstuvwxyz".substring(0, i * 2) + "\n");
+  }
+  var screen = new Terminal.GridScreen(20, 6);
+  var view = new Terminal.View(screen, buffer);
+  view.setWrap(true);
+  view.scrollToLine(9);
+  view.update();
+  assert.equal(screen.getRowText(1), "9:abcdefghijklmnop↵ ");
+  assert.equal(screen.getRowText(2).trim(), "qr");
+  screen.resize(12, 6);
+  view.update();
+  // The line at the top stays there, each line now takes two rows of 10 columns.
+  assert.equal(screen.getRowText(0), "8:abcdefgh↵ ");
+  assert.equal(screen.getRowText(1).trim(), "ijklmnop");
+  assert.equal(screen.getRowText(2), "9:abcdefgh↵ ");
+  assert.equal(screen.getRowText(3).trim(), "ijklmnopqr");
+  var position = view.hitTest(2, 3);
+  assert.equal(position.y, 9);
+  assert.equal(position.x, 12);
+});
+
+test("View stops following when scrolled up and follows again at the bottom", function () {
+  var buffer = new Terminal.Buffer();
+  for (var i = 0; i < 30; i++) {
+    buffer.writeString("line " + i + "\n");
+  }
+  var screen = new Terminal.GridScreen(20, 5);
+  var view = new Terminal.View(screen, buffer);
+  view.setFollow(true);
+  view.update();
+  view.scroll(0, -1);
+  view.update();
+  assert.ok(!view.isFollowing());
+  for (i = 30; i < 35; i++) {
+    buffer.writeString("line " + i + "\n");
+  }
+  view.update();
+  assert.equal(screen.getRowText(0).trim(), "line 24");
+  assert.equal(screen.getRowText(4), "line 28     PAUSED  ");
+  view.scroll(0, 100);
+  assert.ok(view.isFollowing());
+  buffer.writeString("line 35\n");
+  view.update();
+  assert.equal(screen.getRowText(4), "line 35     FOLLOW  ");
+});
+
+test("View sizes the line number gutter for the lines shown", function () {
+  var buffer = new Terminal.Buffer();
+  for (var i = 0; i < 120; i++) {
+    buffer.writeString("line " + i + "\n");
+  }
+  var screen = new Terminal.GridScreen(20, 5);
+  var view = new Terminal.View(screen, buffer);
+  view.setGutter(Terminal.GutterColumn.LineNumber);
+  view.scrollToLine(7);
+  view.update();
+  assert.equal(screen.getRowText(0), " 7 line 6           ");
+  assert.equal(screen.getRowText(3), "10 line 9           ");
+  view.scrollToLine(96);
+  view.update();
+  assert.equal(screen.getRowText(0), " 96 line 95         ");
+  assert.equal(screen.getRowText(4), "100 line 99 PAUSED  ");
+  // Lines past the end scroll the last page into view.
+  view.scrollToLine(500);
+  view.update();
+  assert.equal(screen.getRowText(4).trim(), "120 line 119");
+});
+
+function writeGroup(buffer) {
+  for (var i = 0; i < 5; i++) {
+    buffer.writeString("before " + i + "\n");
+  }
+  buffer.openGroup("group");
+  for (i = 0; i < 20; i++) {
+    buffer.writeString("inner " + i + "\n");
+  }
+  buffer.closeGroup();
+  for (i = 0; i < 20; i++) {
+    buffer.writeString("after " + i + "\n");
+  }
+}
+
+test("View keeps the top line in place when folding and unfolding groups", function () {
+  var buffer = new Terminal.Buffer();
+  writeGroup(buffer);
+  var screen = new Terminal.GridScreen(20, 5);
+  var view = new Terminal.View(screen, buffer);
+  view.scrollToLine(16);
+  view.update();
+  assert.equal(screen.getRowText(0).trim(), "inner 9");
+  // The top line is folded away, its group's header takes its place.
+  view.setGroupFolded(5, true);
+  view.update();
+  assert.equal(screen.getRowText(0).trim(), "▸ group");
+  assert.equal(screen.getRowText(1).trim(), "after 0");
+  view.scroll(0, 2);
+  view.update();
+  assert.equal(screen.getRowText(0).trim(), "after 1");
+  view.setGroupFolded(5, false);
+  view.update();
+  assert.equal(screen.getRowText(0).trim(), "after 1");
+  view.scroll(0, -2);
+  view.update();
+  assert.equal(screen.getRowText(0).trim(), "inner 19");
+});
+
+test("View shows the rest of a folded group once its header is evicted", function () {
+  var buffer = new Terminal.Buffer({ maxLines: 60 });
+  writeGroup(buffer);
+  var screen = new Terminal.GridScreen(20, 8);
+  var view = new Terminal.View(screen, buffer);
+  view.setGroupFolded(5, true);
+  view.update();
+  assert.equal(screen.getRowText(5).trim(), "▸ group");
+  assert.equal(screen.getRowText(6).trim(), "after 0");
+  for (var i = 20; i < 40; i++) {
+    buffer.writeString("after " + i + "\n");
+  }
+  view.update();
+  assert.equal(buffer.evicted, 7);
+  assert.ok(!view.isGroupFolded(5));
+  assert.equal(screen.getRowText(0).trim(), "inner 1");
+});
+
+test("View only writes text between the gutter and the scrollbars", function () {
+  var buffer = new Terminal.Buffer();
+  for (var i = 0; i < 20; i++) {
+    buffer.writeString(i + " " + new Array(60).join("x") + "\n");
+  }
+  var screen = new Terminal.GridScreen(30, 6);
+  var view = new Terminal.View(screen, buffer);
+  view.showMinimap = true;
+  view.setGutter(Terminal.GutterColumn.LineNumber);
+  var columns = [];
+  var writeBufferLine = screen.writeBufferLine;
+  screen.writeBufferLine = function () {
+    var putCell = screen.putCell;
+    screen.putCell = function (c, i) {
+      columns.push(i % screen.w);
+      putCell.apply(screen, arguments);
+    };
+    writeBufferLine.apply(screen, arguments);
+    screen.putCell = putCell;
+  };
+  function assertColumns(left, right) {
+    assert.ok(columns.length > 0);
+    columns.forEach(function (x) {
+      assert.ok(x >= left && x < right, "column " + x);
+    });
+    columns = [];
+  }
+  // A line number and a space on the left, the minimap and the scrollbar on the right.
+  view.update();
+  assertColumns(2, screen.w - view.minimapWidth - 1);
+  // And the wrap indicator.
+  view.setWrap(true);
+  view.update();
+  assertColumns(2, screen.w - view.minimapWidth - 2);
+});